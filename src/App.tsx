@@ -1,34 +1,190 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-
-/** ====== 型 ====== */
-type Slot = {
-  id: string;
-  dateISO: string; // "2025-09-25"
-  start: number;   // minutes 0..1440
-  end: number;     // minutes 0..1440 (start < end)
-};
-
-type Tpl = {
-  id: string;         // 固定ID "tpl-1" | "tpl-2" | "tpl-3"
-  name: string;       // テンプレ名（タブ表示）
-  content: string;    // 本文（{{宛先名}} / {{候補一覧}}）
-};
+import {
+  type BusyCalendar,
+  busyMinutes,
+  busyRangesByDate,
+  buildHoldsIcs,
+  expandCalendars,
+  findBusyOverlap,
+  type HoldExports,
+  holdEvents,
+  parseIcs,
+} from "./ics";
+import { DEFAULT_LIST_FORMATS, formatDate, isValidVarName } from "./template";
+import {
+  applyEdit,
+  duplicateTpl,
+  mergeTemplates,
+  moveTpl,
+  newTplId,
+  parseTemplatesJson,
+  restoreRevision,
+  snapshot,
+  templatesToJson,
+} from "./tplLibrary";
+import { addProposal, contactsFromCsv, contactsToCsv, newContact } from "./contacts";
+import { DRAFT_STATUSES, type DraftFields, findSlotConflict, heldSlots, isOpenDraft, newDraft, syncDraft } from "./drafts";
+import { type CompanyClosure, dayOffName } from "./holidays";
+import {
+  DEFAULT_GRID,
+  MIN_SLOT_OPTIONS,
+  mergeSlotInto,
+  NO_BUFFER,
+  normalizeRange,
+  type SlotGrid,
+  snapTo,
+  STEP,
+  STEP_OPTIONS,
+  withBuffer,
+} from "./slots";
+import { suggestSlots, type SuggestRules } from "./suggest";
+import { parseReplyCode, readShareFromHash, shareUrl } from "./share";
+import {
+  clearShareParams,
+  isIos,
+  isStandalone,
+  readSharedContent,
+  registerServiceWorker,
+  sharedDraftName,
+  watchInstallPrompt,
+} from "./pwa";
+import PickerView from "./PickerView";
+import { parseBulkLines, previewBulkLines } from "./bulk";
+import {
+  commonRanges,
+  DEFAULT_GROUP,
+  groupHeat,
+  type GroupMember,
+  type GroupSettings,
+  type GroupSlot,
+} from "./group";
+import { matchReply, type ReplyMatch } from "./reply";
+import {
+  composeMessage,
+  composeRich,
+  confirmTemplate,
+  defaultTemplates,
+  effectiveDuration,
+  isConfirmTemplate,
+  mailtoUrl,
+  type RichFormat,
+  slotEpoch,
+  slotsFromIcs,
+  slotsFromJson,
+  slotsToJson,
+} from "./compose";
+import { errorText, makeT, type MsgKey } from "./i18n";
+import {
+  browserLocale,
+  formatDuration,
+  formatTime,
+  formatTimeRange,
+  type Locale,
+  LOCALES,
+  type TimeFormat,
+  timeStyle,
+  WEEKDAYS,
+} from "./locale";
+import { emptyHistory, type History, loadHistory, pushHistory, redoHistory, saveHistory, undoHistory } from "./history";
+import {
+  backupToJson,
+  type DiffRow,
+  type DiffValue,
+  diffStore,
+  mergeStore,
+  migrateStorage,
+  parseBackupJson,
+  readStore,
+  splitKey,
+  type StoreData,
+  writeStore,
+} from "./storage";
+import type {
+  Contact,
+  Draft,
+  DraftStatus,
+  ListFormat,
+  Slot,
+  SlotBuffer,
+  Tpl,
+  TplRevision,
+  TplVar,
+  WindowStyle,
+} from "./types";
+import {
+  applySyncedData,
+  LOCAL_ONLY,
+  loadSyncState,
+  mergeValue,
+  saveSyncState,
+  SYNC_SETTINGS_KEY,
+  syncedData,
+  syncWithServer,
+} from "./sync";
+import { dateISOIn, deviceTimeZone, timeZoneList, wallClockIn, wallTimeToEpoch } from "./tz";
 
 /** ====== ユーティリティ ====== */
-const toISODate = (d: Date) => d.toISOString().slice(0, 10);
 const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+// カレンダー上の日付（toISOString は UTC になり日付がずれるため端末の年月日から組み立てる）
+const toISODate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
 const mm = (m: number) => `${pad((m / 60) | 0)}:${pad(m % 60)}`;
-const floorTo15 = (m: number) => Math.floor(m / 15) * 15;
+const hmToMin = (hm: string) => {
+  const [h, m] = hm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+// "2025-09-25" の n 日後
+const addDaysISO = (iso: string, n: number) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return toISODate(new Date(y, m - 1, d + n));
+};
 const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
 const weekdayMonStart = (jsDay: number) => (jsDay + 6) % 7;
+// 会議の長さの選択肢（分）
+const MEETING_DURATIONS = [30, 45, 60, 90, 120];
+// 前後の余白の選択肢（分）
+const BUFFER_OPTIONS = [0, 15, 30, 45, 60, 90];
+
+// テキストをファイルとしてダウンロード
+const downloadText = (filename: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// クリップボードへ書き込む（html があればリッチテキストと平文の両方）。できなければ false
+const writeClipboard = async (text: string, html?: string) => {
+  try {
+    if (html && typeof ClipboardItem !== "undefined") {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          "text/html": new Blob([html], { type: "text/html" }),
+          "text/plain": new Blob([text], { type: "text/plain" }),
+        }),
+      ]);
+    } else {
+      await navigator.clipboard.writeText(text);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
 
 // 端末がバイブ対応なら軽く振動
 const vibrate = (duration: number = 10) => {
   if ("vibrate" in navigator) (navigator as any).vibrate(duration);
 };
 
+// 起動時に保存データを現在のスキーマ版へ移行（新しい版のデータなら書き込まない）
+const storageSchema = migrateStorage();
+
 // localStorageの安全版（使えなければ useState にフォールバック）
 function useSafeLocalStorage<T>(key: string, initial: T) {
+  // 表示中の年月・日付などタブごとの状態はほかのタブに合わせない
+  const sync = !LOCAL_ONLY.includes(splitKey(key)?.name ?? "");
   const storageOK = useMemo(() => {
     try {
       const k = "__am_probe__";
@@ -40,39 +196,70 @@ function useSafeLocalStorage<T>(key: string, initial: T) {
     }
   }, []);
 
+  // 最後に読み書きした保存内容（ほかのタブ・端末の変更と3方向マージするときの基準）
+  const baseRef = useRef<string | null>(null);
   const [value, setValue] = useState<T>(() => {
     if (!storageOK) return initial;
     try {
       const raw = localStorage.getItem(key);
+      baseRef.current = raw;
       return raw ? (JSON.parse(raw) as T) : initial;
     } catch {
       return initial;
     }
   });
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const parseBase = () => (baseRef.current ? JSON.parse(baseRef.current) : undefined);
 
   useEffect(() => {
-    if (!storageOK) return;
+    if (!storageOK || storageSchema.newer) return;
     try {
-      localStorage.setItem(key, JSON.stringify(value));
+      // 読んでから別のタブが書いていたら、上書きせずに項目ごとにマージしてから書く
+      const stored = localStorage.getItem(key);
+      const next = sync && stored !== null && stored !== baseRef.current
+        ? (mergeValue(parseBase(), value, JSON.parse(stored)) as T)
+        : value;
+      const raw = JSON.stringify(next);
+      if (raw !== stored) localStorage.setItem(key, raw);
+      baseRef.current = raw;
+      if (next !== value) setValue(next);
     } catch {}
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [key, value, storageOK]);
 
+  // ほかのタブ（と同期サーバーからの取り込み）の変更をその場で取り込む
+  useEffect(() => {
+    if (!storageOK || !sync) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== key || e.newValue === null || e.newValue === baseRef.current) return;
+      try {
+        const next = mergeValue(parseBase(), valueRef.current, JSON.parse(e.newValue)) as T;
+        baseRef.current = e.newValue;
+        setValue(next);
+      } catch {}
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, storageOK, sync]);
+
   return [value, setValue] as const;
 }
 
-/** ====== デフォルトテンプレ ====== */
-const tpl1 =
-  `{{宛先名}} 様\n\n以下の日程のいずれかでご都合いかがでしょうか？\n\n{{候補一覧}}\n` +
-  `上記日時でもしご都合が合わない際は再度調整いたしますので、ご一報いただけますと幸いです。\n何卒宜しくお願いいたします。`;
-
-const defaultTemplates: Tpl[] = [
-  { id: "tpl-1", name: "はじめまして用", content: tpl1 },
-  { id: "tpl-2", name: "対面商談用", content: "" },
-  { id: "tpl-3", name: "オンライン用", content: "" },
-];
-
 /** ====== 本体 ====== */
 export default function App() {
+  /** ▼ 共有リンク（#pick=…）で開かれたら受け手用の選択画面だけを出す */
+  const [share, setShare] = useState(() => readShareFromHash(window.location.hash));
+  useEffect(() => {
+    const onHash = () => setShare(readShareFromHash(window.location.hash));
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, []);
+  return share ? <PickerView share={share} /> : <Editor />;
+}
+
+function Editor() {
   /** ▼ URLの uid で保存領域を分離（?uid=xxxx） */
   const uid = useMemo(() => {
     try {
@@ -84,49 +271,238 @@ export default function App() {
   }, []);
   const ns = (k: string) => `am_${k}_${uid}`;
 
+  // 言語：画面（uiLocale）と文面（outputLocale）は別々に選ぶ。時刻表記（12/24時間）は両方に効く
+  const [uiLocale, setUiLocale] = useSafeLocalStorage<Locale>(ns("uiLocale"), browserLocale());
+  const [outputLocale, setOutputLocale] = useSafeLocalStorage<Locale>(ns("outputLocale"), browserLocale());
+  const [timeFormat, setTimeFormat] = useSafeLocalStorage<TimeFormat>(ns("timeFormat"), "auto");
+  const t = useMemo(() => makeT(uiLocale), [uiLocale]);
+  const tOut = useMemo(() => makeT(outputLocale), [outputLocale]);
+  useEffect(() => {
+    document.documentElement.lang = uiLocale;
+  }, [uiLocale]);
+  const uiTime = timeStyle(uiLocale, timeFormat);
+  const rangeLabel = (start: number, end: number) => formatTimeRange(start, end, uiTime);
+  const dateLabel = (iso: string, key: MsgKey = "fmt.md") => formatDate(iso, t(key), uiLocale);
+  const statusLabel = (status: DraftStatus) => t(`status.${status}`);
+
+  // タイムゾーン：候補の日時は「自分のゾーン」の壁時計。相手ゾーンを設定すると出力に併記
+  const [myTz, setMyTz] = useSafeLocalStorage<string>(ns("myTz"), deviceTimeZone());
+  const [recipientTz, setRecipientTz] = useSafeLocalStorage<string>(ns("recipientTz"), "");
+  // 会議の長さ（0＝枠そのもの）と、枠がそれより長いときの書き方
+  const [meetingDuration, setMeetingDuration] = useSafeLocalStorage<number>(ns("duration"), 0);
+  const [windowStyle, setWindowStyle] = useSafeLocalStorage<WindowStyle>(ns("windowStyle"), "within");
+  const tzOptions = useMemo(() => {
+    const list = timeZoneList();
+    return [...new Set([myTz, ...(recipientTz ? [recipientTz] : []), ...list])].sort();
+  }, [myTz, recipientTz]);
+
   // 今日 & カレンダー表示年月
-  const today = useMemo(() => new Date(), []);
-  const todayISO = useMemo(() => toISODate(today), [today]);
-  const [year, setYear] = useSafeLocalStorage<number>(ns("year"), today.getFullYear());
-  const [month, setMonth] = useSafeLocalStorage<number>(ns("month"), today.getMonth());
-  const [activeDateISO, setActiveDateISO] = useSafeLocalStorage<string>(ns("activeDate"), toISODate(today));
+  const todayISO = useMemo(() => dateISOIn(myTz, Date.now()), [myTz]);
+  const [year, setYear] = useSafeLocalStorage<number>(ns("year"), Number(todayISO.slice(0, 4)));
+  const [month, setMonth] = useSafeLocalStorage<number>(ns("month"), Number(todayISO.slice(5, 7)) - 1);
+  const [activeDateISO, setActiveDateISO] = useSafeLocalStorage<string>(ns("activeDate"), todayISO);
 
   // データ（保存）
   const [slots, setSlots] = useSafeLocalStorage<Slot[]>(ns("slots"), []);
-  const [templates, setTemplates] = useSafeLocalStorage<Tpl[]>(ns("templates"), defaultTemplates);
+  const [templates, setTemplates] = useSafeLocalStorage<Tpl[]>(ns("templates"), defaultTemplates(outputLocale));
   const [activeTplId, setActiveTplId] = useSafeLocalStorage<string>(ns("activeTplId"), "tpl-1");
   const [toName, setToName] = useSafeLocalStorage<string>(ns("toName"), "");
+  const [toCompany, setToCompany] = useSafeLocalStorage<string>(ns("toCompany"), "");
+  const [toHonorific, setToHonorific] = useSafeLocalStorage<string>(ns("toHonorific"), "");
+  // 共有リンクに載せる自分の表示名
+  const [myName, setMyName] = useSafeLocalStorage<string>(ns("myName"), "");
+  // 連絡先
+  const [contacts, setContacts] = useSafeLocalStorage<Contact[]>(ns("contacts"), []);
+  const [activeContactId, setActiveContactId] = useSafeLocalStorage<string>(ns("activeContactId"), "");
+
+  // 案件（下書き）：上の各項目は選択中の案件の作業コピー。初回は今の内容から1件目を作る
+  const initialDraft = useMemo(
+    () =>
+      newDraft(t("draft.defaultName", { n: 1 }), {
+        slots,
+        toName,
+        toCompany,
+        toHonorific,
+        contactId: activeContactId,
+        tplId: activeTplId,
+        recipientTz,
+        duration: meetingDuration,
+        windowStyle,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+  const [drafts, setDrafts] = useSafeLocalStorage<Draft[]>(ns("drafts"), [initialDraft]);
+  const [activeDraftIdRaw, setActiveDraftId] = useSafeLocalStorage<string>(ns("activeDraftId"), initialDraft.id);
+  const activeDraft = drafts.find((d) => d.id === activeDraftIdRaw) ?? drafts[0];
+  const activeDraftId = activeDraft?.id ?? "";
+  // ほかの未確定の案件が押さえている枠
+  const held = useMemo(
+    () => heldSlots(drafts, activeDraftId, (d) => templates.find((tpl) => tpl.id === d.tplId)?.buffer),
+    [drafts, activeDraftId, templates]
+  );
+  const activeTpl = useMemo(() => templates.find(t => t.id === activeTplId) || templates[0], [templates, activeTplId]);
+  // 前後の余白（移動時間）：重なりの判定とトラックの表示だけに使い、文面は会議そのものの時間
+  const activeBuffer = activeTpl?.buffer ?? NO_BUFFER;
+  // 仮押さえ .ics として書き出し済みの枠（案件ごと）
+  const [icsExports, setIcsExports] = useSafeLocalStorage<HoldExports>(ns("icsExports"), {});
+  const draftExports = icsExports[activeDraftId] ?? {};
+
+  // 取り込んだ予定（.ics）と、重なったときの扱い
+  const [busyCals, setBusyCals] = useSafeLocalStorage<BusyCalendar[]>(ns("busyCals"), []);
+  const [conflictMode, setConflictMode] = useSafeLocalStorage<"warn" | "block">(ns("conflictMode"), "warn");
+  // 祝日・会社の休業日
+  const [closures, setClosures] = useSafeLocalStorage<CompanyClosure[]>(ns("closures"), []);
+  const [skipDaysOff, setSkipDaysOff] = useSafeLocalStorage<boolean>(ns("skipDaysOff"), false);
+  // 枠を作る・動かすときの刻みと最小の長さ
+  const [grid, setGrid] = useSafeLocalStorage<SlotGrid>(ns("grid"), DEFAULT_GRID);
+  const [notice, setNotice] = useState<string | null>(null);
+  const noticeTimer = useRef<number | null>(null);
+  const showNotice = (msg: string) => {
+    setNotice(msg);
+    if (noticeTimer.current) window.clearTimeout(noticeTimer.current);
+    noticeTimer.current = window.setTimeout(() => setNotice(null), 4000);
+  };
+
+  /** === 元に戻す / やり直す（候補・テンプレ・宛先名・選択中の日付とテンプレ） === */
+  type EditSnapshot = {
+    draftId: string;
+    slots: Slot[];
+    templates: Tpl[];
+    toName: string;
+    activeDateISO: string;
+    activeTplId: string;
+  };
+  const editSnap = useMemo<EditSnapshot>(
+    () => ({ draftId: activeDraftId, slots, templates, toName, activeDateISO, activeTplId }),
+    [activeDraftId, slots, templates, toName, activeDateISO, activeTplId]
+  );
+  const [history, setHistory] = useState<History<EditSnapshot>>(() => loadHistory(ns("history")));
+  const lastSnap = useRef(editSnap);
+  const restoring = useRef(false);
+  // 入力中の文字ごとに履歴が増えないよう、同じ項目の続けての変更は1つにまとめる
+  const lastEdit = useRef({ at: 0, fields: "" });
+  useEffect(() => {
+    const prev = lastSnap.current;
+    lastSnap.current = editSnap;
+    if (prev === editSnap) return;
+    if (restoring.current) {
+      restoring.current = false;
+      return;
+    }
+    // 案件を切り替えたら履歴は持ち越さない（別の案件の候補に戻さないため）
+    if (prev.draftId !== editSnap.draftId) {
+      setHistory(emptyHistory());
+      return;
+    }
+    const fields = (Object.keys(editSnap) as (keyof EditSnapshot)[]).filter((k) => prev[k] !== editSnap[k]).join(",");
+    const now = Date.now();
+    const coalesce = !fields.includes("slots") && fields === lastEdit.current.fields && now - lastEdit.current.at < 1500;
+    lastEdit.current = { at: now, fields };
+    setHistory((h) => (coalesce ? h : pushHistory(h, prev)));
+  }, [editSnap]);
+  useEffect(() => saveHistory(ns("history"), history), [history]);
+
+  const restoreSnap = (s: EditSnapshot) => {
+    restoring.current = true;
+    lastEdit.current = { at: 0, fields: "" };
+    setSlots(s.slots);
+    setTemplates(s.templates);
+    setToName(s.toName);
+    setActiveDateISO(s.activeDateISO);
+    setActiveTplId(s.activeTplId);
+  };
+  const undo = () => {
+    const r = undoHistory(history, editSnap);
+    if (!r) return;
+    setHistory(r.history);
+    restoreSnap(r.state);
+  };
+  const redo = () => {
+    const r = redoHistory(history, editSnap);
+    if (!r) return;
+    setHistory(r.history);
+    restoreSnap(r.state);
+  };
+  // Ctrl+Z / Ctrl+Shift+Z（入力欄の中では各欄の標準の取り消しに任せる）
+  const undoKeys = useRef({ undo, redo });
+  undoKeys.current = { undo, redo };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT" || el.isContentEditable)) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) undoKeys.current.undo();
+      else if ((k === "z" && e.shiftKey) || k === "y") undoKeys.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // 取り消せる操作のあとに出すトースト
+  const [toast, setToast] = useState<string | null>(null);
+  const toastTimer = useRef<number | null>(null);
+  const showUndoToast = (msg: string) => {
+    setToast(msg);
+    if (toastTimer.current) window.clearTimeout(toastTimer.current);
+    toastTimer.current = window.setTimeout(() => setToast(null), 6000);
+  };
 
-  // タイムトラック
+  // タイムトラック（trackRef はスクロール枠、trackBodyRef は 0:00 が上端の中身）
   const trackRef = useRef<HTMLDivElement | null>(null);
+  const trackBodyRef = useRef<HTMLDivElement | null>(null);
   const autoScrollInterval = useRef<number | null>(null);
 
-  // ドラッグ状態（リサイズのみ）
+  // 表示：月カレンダー＋1日 / 週（5日 or 7日を横に並べる）
+  const [layout, setLayout] = useSafeLocalStorage<"day" | "week">(ns("layout"), "day");
+  const [weekLength, setWeekLength] = useSafeLocalStorage<5 | 7>(ns("weekLength"), 5);
+  const trackDays = useMemo(() => {
+    if (layout === "day") return [activeDateISO];
+    const [y, m, d] = activeDateISO.split("-").map(Number);
+    const monday = addDaysISO(activeDateISO, -weekdayMonStart(new Date(y, m - 1, d).getDay()));
+    return Array.from({ length: weekLength }, (_, i) => addDaysISO(monday, i));
+  }, [layout, weekLength, activeDateISO]);
+
+  // ドラッグ状態
   const [dragging, setDragging] = useState<
     | null
     | {
-        mode: "resize-start" | "resize-end";
+        mode: "resize-start" | "resize-end" | "create" | "move";
+        dateISO: string;  // 始めた列の日付
         startY: number;   // トラック相対Y(px)
         startMin: number; // 開始時の開始分
         endMin: number;   // 開始時の終了分
-        slotId: string;
+        slotId: string;   // create のときは ""
       }
   >(null);
-  const [hoverRange, setHoverRange] = useState<{ start: number; end: number } | null>(null);
+  // ドラッグ中の行き先（週表示では別の列＝別の日付へも動かせる）
+  const [hoverRange, setHoverRange] = useState<{ dateISO: string; start: number; end: number } | null>(null);
+  // 枠を月グリッドの日付へドラッグ中なら、その日付
+  const [dropDate, setDropDate] = useState<string | null>(null);
+  const [dropMode, setDropMode] = useState<"move" | "copy">("move");
 
   // ==== タイムトラック描画パラメータ ====
   const MINUTES_PER_DAY = 24 * 60;
-  const STEP = 15;              // 15分刻み（表示とスナップ）
   const ROWS = MINUTES_PER_DAY / STEP; // 96
   const ROW_HEIGHT = 12;        // px
   const TRACK_HEIGHT = ROWS * ROW_HEIGHT;
   const minuteToY = (m: number) => (m / STEP) * ROW_HEIGHT;
-  const yToMinute = (y: number) => clamp(floorTo15((y / ROW_HEIGHT) * STEP), 0, 1440);
+  const yToMinute = (y: number) => clamp(snapTo((y / ROW_HEIGHT) * STEP, grid.step), 0, 1440);
+  // 画面Y → トラック相対Y(px)
+  const trackY = (clientY: number) => clientY - (trackBodyRef.current?.getBoundingClientRect().top ?? 0);
+  // 画面上の点にある列の日付
+  const trackDateAt = (clientX: number, clientY: number) =>
+    (document.elementFromPoint(clientX, clientY) as HTMLElement | null)?.closest<HTMLElement>("[data-track-date]")
+      ?.dataset.trackDate;
 
   // === 月カレンダー計算（左:月曜〜右:日曜）===
   const firstOfMonth = useMemo(() => new Date(year, month, 1), [year, month]);
   const daysInMonth = useMemo(() => new Date(year, month + 1, 0).getDate(), [year, month]);
   const leadingBlanks = useMemo(() => weekdayMonStart(firstOfMonth.getDay()), [firstOfMonth]);
+  const monthTitle = dateLabel(toISODate(firstOfMonth), "fmt.yearMonth");
   const weeks = useMemo(() => {
     const cells: (Date | null)[] = [];
     for (let i = 0; i < leadingBlanks; i++) cells.push(null);
@@ -137,93 +513,331 @@ export default function App() {
     return arr;
   }, [year, month, leadingBlanks, daysInMonth]);
 
-  // 当日枠
-  const daySlots = useMemo(
-    () => slots.filter((s) => s.dateISO === activeDateISO).sort((a, b) => a.start - b.start),
-    [slots, activeDateISO]
-  );
+  // === 予定（.ics）を日別に展開：表示月と選択日を含む範囲 ===
+  const busyByDate = useMemo(() => {
+    const monthFrom = wallTimeToEpoch(myTz, year, month + 1, 1);
+    const monthTo = wallTimeToEpoch(myTz, year, month + 2, 1);
+    const from = Math.min(monthFrom, slotEpoch(trackDays[0], 0, myTz));
+    const to = Math.max(monthTo, slotEpoch(trackDays[trackDays.length - 1], 1440, myTz));
+    return busyRangesByDate(expandCalendars(busyCals, from, to, myTz), myTz);
+  }, [busyCals, year, month, trackDays, myTz]);
+  const BUSY_FULL_MINUTES = 8 * 60; // 混雑度バーが満タンになる予定時間
 
   // === 追加・マージ・重複排除ロジック ===
+  const latestSlots = useRef(slots);
+  latestSlots.current = slots;
+  /**
+   * 追加する枠の確認（休業日・取り込んだ予定・ほかの案件）
+   * 登録しないなら blocked、登録して知らせるだけなら warn にメッセージ。busy はその日の予定（既定：表示中の範囲から）
+   */
+  function checkSlot(
+    dateISO: string,
+    range: { start: number; end: number },
+    busy = busyByDate[dateISO]
+  ): { blocked?: string; warn?: string } {
+    // 祝日・休業日は設定により登録しない
+    const off = skipDaysOff ? dayOffName(dateISO, closures) : undefined;
+    if (off) return { blocked: t("slot.offDay", { name: off }) };
+
+    // 予定との重なり（設定により警告 or 登録しない）。テンプレの前後の余白（移動時間）も含めて見る
+    const c = findSlotConflict(dateISO, range, activeBuffer, busy, held);
+    if (c?.kind === "busy") {
+      const label = `${rangeLabel(c.busy.start, c.busy.end)} ${c.busy.summary || t("common.busy")}`;
+      if (conflictMode === "block") return { blocked: t(c.core ? "slot.busyBlocked" : "slot.bufferBusyBlocked", { label }) };
+      return { warn: t(c.core ? "slot.busyWarn" : "slot.bufferBusyWarn", { label }) };
+    }
+    if (c?.kind === "held") {
+      const label = rangeLabel(c.held.start, c.held.end);
+      return { warn: t(c.core ? "slot.heldWarn" : "slot.bufferHeldWarn", { draft: c.held.draftName, range: label }) };
+    }
+    return {};
+  }
+
   function addOrMergeSlot(dateISO: string, start: number, end: number, excludeId?: string) {
-    start = clamp(start, 0, 1440 - STEP);
-    end = clamp(end, STEP, 1440);
-    if (end - start < 30) end = Math.min(start + 30, 1440); // 最小30分
-    if (start >= end) return;
-
-    setSlots((prev) => {
-      // 移動の場合は元のスロットを除外
-      const filtered = excludeId ? prev.filter((p) => p.id !== excludeId) : prev;
-      
-      // 完全重複は無視
-      if (filtered.some((p) => p.dateISO === dateISO && p.start === start && p.end === end)) return prev;
-
-      // 同日で重なり or 端が接しているものはマージ
-      let mergedStart = start;
-      let mergedEnd = end;
-      const rest: Slot[] = [];
-      for (const p of filtered) {
-        if (p.dateISO !== dateISO) {
-          rest.push(p);
-          continue;
-        }
-        const overlap = !(p.end <= mergedStart || mergedEnd <= p.start);
-        const touching = p.end === mergedStart || mergedEnd === p.start;
-        if (overlap || touching) {
-          mergedStart = Math.min(mergedStart, p.start);
-          mergedEnd = Math.max(mergedEnd, p.end);
-          vibrate(5);
-        } else {
-          rest.push(p);
-        }
+    const range = normalizeRange(start, end, grid);
+    if (!range) return;
+
+    const check = checkSlot(dateISO, range);
+    if (check.blocked) {
+      showNotice(check.blocked);
+      vibrate(30);
+      return;
+    }
+    if (check.warn) showNotice(check.warn);
+
+    // キーリピートなどで続けて呼ばれても前の変更を上書きしないよう、更新は関数で渡す
+    // （マージしたかどうかは、まだ描画されていない変更も含めた最新の候補で見る）
+    const base = latestSlots.current;
+    const { slots: next, merged } = mergeSlotInto(base, dateISO, range.start, range.end, excludeId);
+    if (next === base) return;
+    latestSlots.current = next;
+    setSlots((prev) => mergeSlotInto(prev, dateISO, range.start, range.end, excludeId).slots);
+    if (merged) {
+      vibrate(5);
+      showUndoToast(t("slot.merged"));
+    }
+  }
+  const removeSlot = (id: string) => {
+    const s = slots.find((x) => x.id === id);
+    setSlots((prev) => prev.filter((x) => x.id !== id));
+    if (s) showUndoToast(t("slot.removed", { range: rangeLabel(s.start, s.end) }));
+  };
+
+  /** === 候補の自動提案 === */
+  const [suggestRules, setSuggestRules] = useSafeLocalStorage<Omit<SuggestRules, "fromISO" | "toISO">>(
+    ns("suggestRules"),
+    {
+      weekdays: [0, 1, 2, 3, 4],
+      workStart: 9 * 60,
+      workEnd: 18 * 60,
+      lunchStart: 12 * 60,
+      lunchEnd: 13 * 60,
+      duration: 60,
+      leadMinutes: 24 * 60,
+      perDay: 2,
+      count: 5,
+      spread: true,
+    }
+  );
+  const [suggestRange, setSuggestRange] = useState(() => ({ fromISO: todayISO, toISO: addDaysISO(todayISO, 13) }));
+  const updateSuggestRules = (patch: Partial<typeof suggestRules>) => setSuggestRules((prev) => ({ ...prev, ...patch }));
+
+  const runSuggest = () => {
+    const fromISO = suggestRange.fromISO < todayISO ? todayISO : suggestRange.fromISO;
+    const { toISO } = suggestRange;
+    if (toISO < fromISO) return showNotice(t("suggest.badRange"));
+    // 期間ぶんの予定を展開
+    const busy = busyRangesByDate(
+      expandCalendars(busyCals, slotEpoch(fromISO, 0, myTz), slotEpoch(toISO, 1440, myTz), myTz),
+      myTz
+    );
+    const now = wallClockIn(myTz, Date.now());
+    const found = suggestSlots(
+      { ...suggestRules, fromISO, toISO },
+      {
+        todayISO,
+        nowMinutes: now.h * 60 + now.mi,
+        busy: (iso) => busy[iso],
+        existing: [...slots, ...held],
+        buffer: activeBuffer,
+        excludeDate: skipDaysOff ? (iso) => !!dayOffName(iso, closures) : undefined,
       }
-      return [
-        ...rest,
-        { id: excludeId || crypto.randomUUID(), dateISO, start: mergedStart, end: mergedEnd },
-      ].sort((a, b) =>
-        a.dateISO === b.dateISO ? a.start - b.start : a.dateISO.localeCompare(b.dateISO)
-      );
+    );
+    if (found.length === 0) return showNotice(t("suggest.none"));
+    setSlots((prev) => found.reduce((acc, f) => mergeSlotInto(acc, f.dateISO, f.start, f.end).slots, prev));
+    showNotice(t("suggest.added", { n: found.length }));
+    vibrate(20);
+  };
+
+  /** === まとめて入力（1行に1つ「9/25 13-15」など・確認してから追加） === */
+  const [bulkText, setBulkText] = useState("");
+  const bulkLines = useMemo(
+    () => parseBulkLines(bulkText, todayISO, meetingDuration || 60),
+    [bulkText, todayISO, meetingDuration]
+  );
+  // 予定は入力にある日付の範囲だけ展開
+  const busyForDates = (dates: string[]) => {
+    if (!dates.length) return {};
+    const sorted = [...dates].sort();
+    const from = slotEpoch(sorted[0], 0, myTz);
+    const to = slotEpoch(sorted[sorted.length - 1], 1440, myTz);
+    return busyRangesByDate(expandCalendars(busyCals, from, to, myTz), myTz);
+  };
+  const bulkBusy = useMemo(
+    () => busyForDates(bulkLines.flatMap((l) => l.slots.map((x) => x.dateISO))),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [bulkLines, busyCals, myTz]
+  );
+  // 追加できるか（休業日・予定・ほかの案件）を見る
+  const bulkPreview = previewBulkLines(bulkLines, grid, (x) => checkSlot(x.dateISO, x, bulkBusy[x.dateISO]));
+  const bulkReady = bulkPreview.flatMap((l) => l.items.filter((x) => !x.blocked));
+  const applyBulk = () => {
+    if (!bulkReady.length) return;
+    setSlots((prev) => bulkReady.reduce((acc, x) => mergeSlotInto(acc, x.dateISO, x.start, x.end).slots, prev));
+    // 追加できなかった行だけ残す（直して追加し直せるように）
+    setBulkText(
+      bulkPreview
+        .filter((l) => l.error || l.items.some((x) => x.blocked))
+        .map((l) => l.text)
+        .join("\n")
+    );
+    showNotice(t("bulk.added", { n: bulkReady.length }));
+    vibrate(20);
+  };
+
+  /** === 複数人の空き（ほかの uid の候補・同僚の候補ファイルを重ねる） === */
+  const [group, setGroup] = useSafeLocalStorage<GroupSettings>(ns("group"), DEFAULT_GROUP);
+  const updateGroup = (patch: Partial<GroupSettings>) => setGroup((prev) => ({ ...prev, ...patch }));
+  // ほかの uid の保存内容はタブ間の storage イベントで読み直す
+  const [storeTick, setStoreTick] = useState(0);
+  useEffect(() => {
+    const onStorage = () => setStoreTick((n) => n + 1);
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+  const uidSlots = (u: string): GroupSlot[] => {
+    if (u === uid) return slots;
+    try {
+      const v = JSON.parse(localStorage.getItem(`am_slots_${u}`) ?? "[]");
+      return Array.isArray(v) ? v : [];
+    } catch {
+      return [];
+    }
+  };
+  // この端末で候補のある uid
+  const knownUids = useMemo(() => {
+    const found = Object.keys(readStore()).flatMap((key) => {
+      const k = splitKey(key);
+      return k?.name === "slots" ? [k.uid] : [];
     });
-  }
-  const removeSlot = (id: string) => setSlots((prev) => prev.filter((s) => s.id !== id));
+    return [...new Set([...found, uid])].sort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storeTick, uid]);
+  const groupHeatByDate = useMemo(
+    () => groupHeat(group.members.map((m) => (m.uid ? uidSlots(m.uid) : m.slots ?? []))),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [group.members, slots, storeTick]
+  );
+  const groupTotal = group.members.length;
+  const showGroup = group.show && groupTotal > 0;
+  const groupCommon = useMemo(
+    () => commonRanges(groupHeatByDate, groupTotal, group.minLength).filter((r) => r.dateISO >= todayISO),
+    [groupHeatByDate, groupTotal, group.minLength, todayISO]
+  );
+  const toggleGroupUid = (u: string) =>
+    updateGroup({
+      members: group.members.some((m) => m.uid === u)
+        ? group.members.filter((m) => m.uid !== u)
+        : [...group.members, { id: `uid:${u}`, name: u, uid: u }],
+    });
+  const importGroupFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const added: GroupMember[] = [];
+    for (const f of Array.from(files)) {
+      try {
+        const raw = await f.text();
+        const ics = /\.ics$/i.test(f.name);
+        const list = ics ? slotsFromIcs(raw, myTz) : slotsFromJson(raw);
+        const name = (!ics && (JSON.parse(raw) as { name?: unknown }).name) || f.name.replace(/\.(json|ics)$/i, "");
+        added.push({
+          id: crypto.randomUUID(),
+          name: String(name),
+          slots: list.map(({ dateISO, start, end }) => ({ dateISO, start, end })),
+        });
+      } catch (err) {
+        showNotice(t("common.loadFailed", { message: `${f.name}: ${errorText(err, t)}` }));
+      }
+    }
+    if (added.length) updateGroup({ members: [...group.members, ...added] });
+  };
+  const exportMySlots = () =>
+    downloadText(`appoint-slots-${uid}.json`, slotsToJson(selectedSlotsSorted, myName.trim()), "application/json");
+  // 全員が空いている時間を候補に（休業日・予定・ほかの案件の確認は1枠ずつの追加と同じ）
+  const addGroupCommon = () => {
+    const busy = busyForDates(groupCommon.map((r) => r.dateISO));
+    const ok = groupCommon.filter((r) => !checkSlot(r.dateISO, r, busy[r.dateISO]).blocked);
+    if (!ok.length) return showNotice(t("group.noneAdded"));
+    setSlots((prev) => ok.reduce((acc, r) => mergeSlotInto(acc, r.dateISO, r.start, r.end).slots, prev));
+    showNotice(t("group.added", { n: ok.length }));
+    vibrate(20);
+  };
+
+  /** === .ics 取り込み === */
+  const importIcsFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const added: BusyCalendar[] = [];
+    for (const f of Array.from(files)) {
+      try {
+        const events = parseIcs(await f.text());
+        added.push({
+          id: crypto.randomUUID(),
+          name: f.name.replace(/\.ics$/i, ""),
+          importedAt: new Date().toISOString(),
+          enabled: true,
+          events,
+        });
+      } catch {
+        showNotice(t("ics.loadFailed", { name: f.name }));
+      }
+    }
+    if (added.length) {
+      setBusyCals((prev) => [...prev, ...added]);
+      showNotice(t("ics.imported", { n: added.reduce((n, c) => n + c.events.length, 0) }));
+    }
+  };
+  const toggleBusyCal = (id: string) =>
+    setBusyCals((prev) => prev.map((c) => (c.id === id ? { ...c, enabled: !c.enabled } : c)));
+  const removeBusyCal = (id: string) => setBusyCals((prev) => prev.filter((c) => c.id !== id));
 
-  /** === 「スクロール優先 / 登録は長押しのみ」 === */
-  const gesture = useRef<{ downY: number; scrollTop: number; timer?: number } | null>(null);
+  /** === 「スクロール優先」：長押し（マウスはそのままドラッグ）で作成・移動を始める === */
+  const gesture = useRef<{
+    downY: number;
+    dateISO: string;
+    scrollTop: number;
+    scrollLeft: number;
+    slot?: Slot;
+    timer?: number;
+  } | null>(null);
   const LONG_PRESS_MS = 300;
   const MOVE_THRESHOLD_PX = 8;
   const SCROLL_THRESHOLD_PX = 3;
 
+  const trackScrolled = (g: { scrollTop: number; scrollLeft: number }) =>
+    !!trackRef.current &&
+    (Math.abs(trackRef.current.scrollTop - g.scrollTop) > SCROLL_THRESHOLD_PX ||
+      Math.abs(trackRef.current.scrollLeft - g.scrollLeft) > SCROLL_THRESHOLD_PX);
+
+  // 空き部分なら新規作成、バンドの上なら移動のドラッグを始める
+  const beginDrag = (yRel: number, dateISO: string, slot?: Slot) => {
+    if (slot) {
+      setDragging({ mode: "move", dateISO, startY: yRel, startMin: slot.start, endMin: slot.end, slotId: slot.id });
+      setHoverRange({ dateISO, start: slot.start, end: slot.end });
+    } else {
+      const m = Math.min(yToMinute(yRel), 1440 - grid.minSlot);
+      setDragging({ mode: "create", dateISO, startY: yRel, startMin: m, endMin: m + grid.minSlot, slotId: "" });
+      setHoverRange({ dateISO, start: m, end: m + grid.minSlot });
+    }
+    vibrate(20);
+  };
+
   const onTrackPointerDown: React.PointerEventHandler<HTMLDivElement> = (e) => {
     if (!trackRef.current) return;
-    const rect = trackRef.current.getBoundingClientRect();
-    const yRel = e.clientY - rect.top + trackRef.current.scrollTop;
-    const startMin = yToMinute(yRel);
+    const target = e.target as HTMLElement;
+    const dateISO = target.closest<HTMLElement>("[data-track-date]")?.dataset.trackDate;
+    if (!dateISO) return; // 目盛り・見出しの上
+    const slotId = target.closest<HTMLElement>("[data-slot-id]")?.dataset.slotId;
+    const slot = slotId ? slots.find((s) => s.id === slotId) : undefined;
 
     if (gesture.current?.timer) window.clearTimeout(gesture.current.timer);
-    gesture.current = { downY: yRel, scrollTop: trackRef.current.scrollTop };
+    gesture.current = {
+      downY: trackY(e.clientY),
+      dateISO,
+      scrollTop: trackRef.current.scrollTop,
+      scrollLeft: trackRef.current.scrollLeft,
+      slot,
+    };
 
     const t = window.setTimeout(() => {
-      if (!trackRef.current || !gesture.current) return;
-      const scrolled = Math.abs(trackRef.current.scrollTop - gesture.current.scrollTop) > SCROLL_THRESHOLD_PX;
-      if (scrolled) return;
-      addOrMergeSlot(activeDateISO, startMin, startMin + 30);
-      vibrate(20);
+      const g = gesture.current;
+      if (!g || trackScrolled(g)) return;
+      beginDrag(g.downY, g.dateISO, g.slot);
+      gesture.current = null;
     }, LONG_PRESS_MS);
     gesture.current.timer = t;
   };
 
   const onTrackPointerMove: React.PointerEventHandler<HTMLDivElement> = (e) => {
-    if (!trackRef.current) return;
-    if (!gesture.current) return;
-    const scrolled = Math.abs(trackRef.current.scrollTop - gesture.current.scrollTop) > SCROLL_THRESHOLD_PX;
-    if (scrolled) {
-      if (gesture.current.timer) window.clearTimeout(gesture.current.timer);
+    const g = gesture.current;
+    if (!g) return;
+    if (trackScrolled(g)) {
+      if (g.timer) window.clearTimeout(g.timer);
       gesture.current = null;
       return;
     }
-    const rect = trackRef.current.getBoundingClientRect();
-    const yRel = e.clientY - rect.top + trackRef.current.scrollTop;
-    if (Math.abs(yRel - gesture.current.downY) > MOVE_THRESHOLD_PX) {
-      if (gesture.current.timer) window.clearTimeout(gesture.current.timer);
+    if (Math.abs(trackY(e.clientY) - g.downY) > MOVE_THRESHOLD_PX) {
+      if (g.timer) window.clearTimeout(g.timer);
+      // マウスはスクロールと取り合わないので、動かした時点でドラッグ開始
+      if (e.pointerType === "mouse") beginDrag(g.downY, g.dateISO, g.slot);
       gesture.current = null;
     }
   };
@@ -233,7 +847,20 @@ export default function App() {
     gesture.current = null;
   };
 
-  /** === リサイズ（○ボタン）のみ === */
+  // ドラッグ中はタッチのスクロールを止める（touch-action は途中で変えられないため）
+  const draggingRef = useRef(dragging);
+  draggingRef.current = dragging;
+  useEffect(() => {
+    const el = trackRef.current;
+    if (!el) return;
+    const onTouchMove = (e: TouchEvent) => {
+      if (draggingRef.current) e.preventDefault();
+    };
+    el.addEventListener("touchmove", onTouchMove, { passive: false });
+    return () => el.removeEventListener("touchmove", onTouchMove);
+  }, []);
+
+  /** === リサイズ（○ボタン） === */
   const onHandleDown = (
     e: React.PointerEvent<HTMLDivElement>,
     mode: "resize-start" | "resize-end",
@@ -242,18 +869,17 @@ export default function App() {
     e.stopPropagation();
     e.preventDefault(); // スクロールを防ぐ
     if (!trackRef.current) return;
-    const rect = trackRef.current.getBoundingClientRect();
-    const yRel = e.clientY - rect.top + trackRef.current.scrollTop;
     try { (e.target as HTMLElement).setPointerCapture((e as any).pointerId); } catch {}
     
     setDragging({ 
       mode, 
-      startY: yRel, 
+      dateISO: slot.dateISO,
+      startY: trackY(e.clientY), 
       startMin: slot.start, 
       endMin: slot.end, 
       slotId: slot.id
     });
-    setHoverRange({ start: slot.start, end: slot.end });
+    setHoverRange({ dateISO: slot.dateISO, start: slot.start, end: slot.end });
     vibrate(8);
   };
 
@@ -287,6 +913,18 @@ export default function App() {
     
     const rect = trackRef.current.getBoundingClientRect();
     const clientY = e.clientY;
+
+    // 月グリッドの日付の上にいるか（移動のみ）
+    if (dragging.mode === "move") {
+      const cell = (document.elementFromPoint(e.clientX, clientY) as HTMLElement | null)?.closest<HTMLElement>(
+        "[data-drop-date]"
+      );
+      setDropDate(cell?.dataset.dropDate ?? null);
+      if (cell) {
+        stopAutoScroll();
+        return;
+      }
+    }
     
     // 自動スクロール判定（端から20px以内）
     if (clientY < rect.top + 20) {
@@ -297,41 +935,205 @@ export default function App() {
       stopAutoScroll();
     }
     
-    const yRel = clientY - rect.top + trackRef.current.scrollTop;
+    const yRel = trackY(clientY);
     const dyMin = yToMinute(yRel) - yToMinute(dragging.startY);
+    const { dateISO } = dragging;
 
     if (dragging.mode === "resize-start") {
-      const ns = clamp(floorTo15(dragging.startMin + dyMin), 0, dragging.endMin - 30);
-      setHoverRange({ start: ns, end: dragging.endMin });
+      const ns = clamp(snapTo(dragging.startMin + dyMin, grid.step), 0, dragging.endMin - grid.minSlot);
+      setHoverRange({ dateISO, start: ns, end: dragging.endMin });
     } else if (dragging.mode === "resize-end") {
-      const ne = clamp(floorTo15(dragging.endMin + dyMin), dragging.startMin + 30, 1440);
-      setHoverRange({ start: dragging.startMin, end: ne });
+      const ne = clamp(snapTo(dragging.endMin + dyMin, grid.step), dragging.startMin + grid.minSlot, 1440);
+      setHoverRange({ dateISO, start: dragging.startMin, end: ne });
+    } else if (dragging.mode === "create") {
+      // 押したマスと今いるマスを含む範囲（最小の長さは設定）
+      const cur = yToMinute(yRel);
+      const st = Math.min(dragging.startMin, cur);
+      const en = Math.min(1440, Math.max(Math.max(dragging.startMin, cur) + grid.step, st + grid.minSlot));
+      setHoverRange({ dateISO, start: st, end: en });
+    } else if (dragging.mode === "move") {
+      // 週表示では指の下の列の日付へ
+      const len = dragging.endMin - dragging.startMin;
+      const st = clamp(dragging.startMin + dyMin, 0, 1440 - len);
+      setHoverRange({ dateISO: trackDateAt(e.clientX, clientY) ?? hoverRange?.dateISO ?? dateISO, start: st, end: st + len });
     }
   };
 
-  const onDocPointerUp = () => {
+  const endDrag = () => {
+    setDragging(null);
+    setHoverRange(null);
+    setDropDate(null);
+  };
+
+  const onDocPointerUp = (e: PointerEvent) => {
     stopAutoScroll();
     if (!dragging) return;
-    if (hoverRange) {
-      // リサイズ確定
-      const dateISO = slots.find((p) => p.id === dragging.slotId)?.dateISO || activeDateISO;
-      addOrMergeSlot(dateISO, hoverRange.start, hoverRange.end, dragging.slotId);
+    const src = slots.find((p) => p.id === dragging.slotId);
+    if (dragging.mode === "move" && dropDate) {
+      // 日付へドロップ：同じ時間帯で移動 or コピー（Ctrl/Alt で入れ替え）
+      if (src && dropDate !== src.dateISO) {
+        const copy = (dropMode === "copy") !== (e.ctrlKey || e.altKey || e.metaKey);
+        addOrMergeSlot(dropDate, src.start, src.end, copy ? undefined : src.id);
+        showUndoToast(t(copy ? "slot.copied" : "slot.moved", { date: dateLabel(dropDate) }));
+      }
+    } else if (hoverRange) {
+      const h = hoverRange;
+      if (dragging.mode === "create") {
+        addOrMergeSlot(h.dateISO, h.start, h.end);
+      } else if (!src || src.dateISO !== h.dateISO || src.start !== h.start || src.end !== h.end) {
+        // リサイズ・移動の確定
+        addOrMergeSlot(h.dateISO, h.start, h.end, dragging.slotId);
+      }
     }
-    setDragging(null);
-    setHoverRange(null);
+    endDrag();
     vibrate(10);
   };
 
+  const onDocPointerCancel = () => {
+    stopAutoScroll();
+    if (dragging) endDrag();
+  };
+
   useEffect(() => {
     document.addEventListener("pointermove", onDocPointerMove);
     document.addEventListener("pointerup", onDocPointerUp);
+    document.addEventListener("pointercancel", onDocPointerCancel);
     return () => {
       document.removeEventListener("pointermove", onDocPointerMove);
       document.removeEventListener("pointerup", onDocPointerUp);
+      document.removeEventListener("pointercancel", onDocPointerCancel);
       stopAutoScroll();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dragging, hoverRange, activeDateISO, slots]);
+  }, [dragging, hoverRange, dropDate, dropMode, activeDateISO, slots]);
+
+  // 週の送り（カレンダーの表示月も合わせる）
+  const selectDate = (iso: string) => {
+    setActiveDateISO(iso);
+    setYear(Number(iso.slice(0, 4)));
+    setMonth(Number(iso.slice(5, 7)) - 1);
+  };
+  const shiftWeek = (n: number) => selectDate(addDaysISO(activeDateISO, n * 7));
+
+  /** === キーボード操作・読み上げ === */
+  // 読み上げ用の枠の名前（例："9月25日 13:00〜14:00 候補"）
+  const slotLabel = (s: Slot) =>
+    t(s.confirmed ? "slot.labelConfirmed" : "slot.label", { date: dateLabel(s.dateISO), range: rangeLabel(s.start, s.end) });
+
+  // トラック上のカーソル（15分単位）
+  const [cursor, setCursor] = useState<{ dateISO: string; minute: number } | null>(null);
+  const [trackFocused, setTrackFocused] = useState(false);
+  const cursorRef = useRef<HTMLDivElement | null>(null);
+  const cursorSlot = cursor
+    ? slots.find((s) => s.dateISO === cursor.dateISO && s.start <= cursor.minute && cursor.minute < s.end)
+    : undefined;
+  const cursorLabel = !cursor
+    ? ""
+    : cursorSlot
+      ? slotLabel(cursorSlot)
+      : t("slot.free", { date: dateLabel(cursor.dateISO, "fmt.mdw"), time: formatTime(cursor.minute, uiTime) });
+  useEffect(() => {
+    if (trackFocused) cursorRef.current?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [cursor, trackFocused]);
+
+  const onTrackFocus: React.FocusEventHandler<HTMLDivElement> = (e) => {
+    if (e.target !== e.currentTarget) return;
+    // クリックで入ったときはカーソルを出さない（キーを押したら出す）
+    let visible = true;
+    try {
+      visible = e.currentTarget.matches(":focus-visible");
+    } catch {}
+    setTrackFocused(visible);
+    if (!cursor || !trackDays.includes(cursor.dateISO)) {
+      const dateISO = trackDays.includes(activeDateISO) ? activeDateISO : trackDays[0];
+      const first = slots.filter((s) => s.dateISO === dateISO).sort((a, b) => a.start - b.start)[0];
+      setCursor({ dateISO, minute: first ? first.start : 9 * 60 });
+    }
+  };
+
+  // 矢印：刻みごと / 左右で日付、Enter：作成、Shift+上下：終了、Shift+Alt+上下：開始、Delete：削除
+  const onTrackKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (e) => {
+    if (e.target !== e.currentTarget || !cursor) return;
+    if (!trackFocused) setTrackFocused(true);
+    const { dateISO, minute } = cursor;
+    const s = cursorSlot;
+    switch (e.key) {
+      case "ArrowUp":
+      case "ArrowDown": {
+        const d = e.key === "ArrowUp" ? -grid.step : grid.step;
+        if (e.shiftKey) {
+          if (!s) return;
+          if (e.altKey) addOrMergeSlot(s.dateISO, s.start + d, s.end, s.id);
+          else addOrMergeSlot(s.dateISO, s.start, s.end + d, s.id);
+        } else {
+          setCursor({ dateISO, minute: clamp(minute + d, 0, 1440 - grid.step) });
+        }
+        break;
+      }
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const dir = e.key === "ArrowLeft" ? -1 : 1;
+        let next = addDaysISO(dateISO, dir);
+        // 平日だけの週表示では土日を飛ばす
+        const weekend = (iso: string) => new Date(iso + "T00:00:00").getDay() % 6 === 0;
+        if (layout === "week" && weekLength === 5) while (weekend(next)) next = addDaysISO(next, dir);
+        setCursor({ dateISO: next, minute });
+        selectDate(next);
+        break;
+      }
+      case "Enter":
+        if (s) return;
+        addOrMergeSlot(dateISO, minute, minute + grid.minSlot);
+        break;
+      case "Delete":
+      case "Backspace":
+        if (!s) return;
+        removeSlot(s.id);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // ○ハンドル（スライダー）：上下で刻みごと
+  const onHandleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, mode: "resize-start" | "resize-end", s: Slot) => {
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    e.preventDefault();
+    e.stopPropagation();
+    const d = e.key === "ArrowUp" ? -grid.step : grid.step;
+    if (mode === "resize-start") addOrMergeSlot(s.dateISO, s.start + d, s.end, s.id);
+    else addOrMergeSlot(s.dateISO, s.start, s.end + d, s.id);
+  };
+
+  // 月カレンダー：選択中の日だけ Tab で入り、矢印で日付を移る（ロービングフォーカス）
+  const calendarFocus = useRef<string | null>(null);
+  const onCalendarKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, iso: string) => {
+    const [y, m, d] = iso.split("-").map(Number);
+    const wd = weekdayMonStart(new Date(y, m - 1, d).getDay());
+    const step: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7, Home: -wd, End: 6 - wd };
+    let next: string | undefined;
+    if (e.key in step) next = addDaysISO(iso, step[e.key]);
+    else if (e.key === "PageUp" || e.key === "PageDown") {
+      const t = new Date(y, m - 1 + (e.key === "PageUp" ? -1 : 1), 1);
+      const last = new Date(t.getFullYear(), t.getMonth() + 1, 0).getDate();
+      next = toISODate(new Date(t.getFullYear(), t.getMonth(), Math.min(d, last)));
+    }
+    if (!next) return;
+    e.preventDefault();
+    calendarFocus.current = next;
+    selectDate(next);
+  };
+  useEffect(() => {
+    if (!calendarFocus.current) return;
+    document.querySelector<HTMLElement>(`[data-drop-date="${calendarFocus.current}"]`)?.focus();
+    calendarFocus.current = null;
+  }, [activeDateISO, year, month]);
+  const slotCountByDate = useMemo(() => {
+    const m: Record<string, number> = {};
+    for (const s of slots) m[s.dateISO] = (m[s.dateISO] ?? 0) + 1;
+    return m;
+  }, [slots]);
 
   /** === 出力テキスト === */
   const selectedSlotsSorted = useMemo(
@@ -342,41 +1144,387 @@ export default function App() {
     [slots]
   );
 
-  const candidateListText = useMemo(() => {
-    if (selectedSlotsSorted.length === 0) return "（候補なし）";
-    const fmt = (iso: string) => {
-      const d = new Date(iso + "T00:00:00");
-      const md = `${d.getMonth() + 1}月${d.getDate()}日（${"月火水木金土日"[weekdayMonStart(d.getDay())]}）`;
-      return md;
-    };
-    const grouped: Record<string, Slot[]> = {};
-    selectedSlotsSorted.forEach((s) => ((grouped[s.dateISO] ??= []).push(s)));
-    const lines: string[] = [];
-    Object.keys(grouped)
-      .sort()
-      .forEach((iso) => {
-        const times = grouped[iso].map((s) => `${mm(s.start)}〜${mm(s.end)}`).join("、");
-        lines.push(`・${fmt(iso)}：${times}`);
-      });
-    return lines.join("\n");
-  }, [selectedSlotsSorted]);
+  const listFormat = activeTpl?.listFormat ?? DEFAULT_LIST_FORMATS[outputLocale];
 
-  const activeTpl = useMemo(() => templates.find(t => t.id === activeTplId) || templates[0], [templates, activeTplId]);
-  const outputText = useMemo(() => {
-    const name = toName.trim() || "（宛先名）";
-    const tpl = activeTpl?.content || "";
-    return tpl.split("{{宛先名}}").join(name).split("{{候補一覧}}").join(candidateListText);
-  }, [activeTpl, toName, candidateListText]);
+  // 文面の組み立ては compose.ts（CLI と共通）
+  const composeInput = useMemo(
+    () => ({
+      slots: selectedSlotsSorted,
+      template: activeTpl ?? { name: "", content: "" },
+      toName,
+      toCompany,
+      toHonorific,
+      myTz,
+      recipientTz,
+      locale: outputLocale,
+      timeFormat,
+      duration: meetingDuration,
+      windowStyle,
+    }),
+    [
+      selectedSlotsSorted,
+      activeTpl,
+      toName,
+      toCompany,
+      toHonorific,
+      myTz,
+      recipientTz,
+      outputLocale,
+      timeFormat,
+      meetingDuration,
+      windowStyle,
+    ]
+  );
+  const rendered = useMemo(() => composeMessage(composeInput), [composeInput]);
+  const candidateListText = rendered.candidateList;
+  const outputText = rendered.text;
+  // 出力の形式：テキスト / HTML（リッチテキストのメール）/ Markdown / Slack
+  const [outputFormat, setOutputFormat] = useSafeLocalStorage<"text" | RichFormat>(ns("outputFormat"), "text");
+  const richText = useMemo(
+    () => (outputFormat === "text" ? "" : composeRich(composeInput, outputFormat)),
+    [composeInput, outputFormat]
+  );
+  const mailto = mailtoUrl(rendered.subject, outputText);
+
+  /** === 案件（下書き）の切り替え・同期 === */
+  const draftFields: DraftFields = useMemo(
+    () => ({
+      slots,
+      toName,
+      toCompany,
+      toHonorific,
+      contactId: activeContactId,
+      tplId: activeTplId,
+      recipientTz,
+      duration: meetingDuration,
+      windowStyle,
+      text: outputText,
+    }),
+    [slots, toName, toCompany, toHonorific, activeContactId, activeTplId, recipientTz, meetingDuration, windowStyle, outputText]
+  );
+  useEffect(() => {
+    if (activeDraftId) setDrafts((prev) => syncDraft(prev, activeDraftId, draftFields));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftFields, activeDraftId]);
+
+  const loadDraft = (d: Draft) => {
+    setActiveDraftId(d.id);
+    setSlots(d.slots);
+    setToName(d.toName);
+    setToCompany(d.toCompany);
+    setToHonorific(d.toHonorific);
+    setActiveContactId(d.contactId);
+    if (templates.some((t) => t.id === d.tplId)) setActiveTplId(d.tplId);
+    setRecipientTz(d.recipientTz);
+    // 以前の版で保存した案件には会議の長さがない
+    setMeetingDuration(d.duration ?? 0);
+    setWindowStyle(d.windowStyle ?? "within");
+  };
+  const createDraft = () => {
+    const fallback = t("draft.defaultName", { n: drafts.length + 1 });
+    const name = prompt(t("draft.namePrompt"), fallback);
+    if (name === null) return;
+    const d = newDraft(name.trim() || fallback, { tplId: activeTplId });
+    setDrafts((prev) => [...prev, d]);
+    loadDraft(d);
+  };
+  const renameDraft = () => {
+    if (!activeDraft) return;
+    const name = prompt(t("draft.namePrompt"), activeDraft.name);
+    if (name?.trim()) setDrafts((prev) => prev.map((d) => (d.id === activeDraftId ? { ...d, name: name.trim() } : d)));
+  };
+  const setDraftStatus = (status: DraftStatus) =>
+    setDrafts((prev) => prev.map((d) => (d.id === activeDraftId ? { ...d, status, updatedAt: Date.now() } : d)));
+  const deleteDraft = () => {
+    if (!activeDraft || drafts.length <= 1) return;
+    if (!confirm(t("draft.confirmDelete", { name: activeDraft.name }))) return;
+    const rest = drafts.filter((d) => d.id !== activeDraftId);
+    setDrafts(rest);
+    loadDraft(rest[0]);
+  };
+  const setDraftNotes = (notes: string) =>
+    setDrafts((prev) => prev.map((d) => (d.id === activeDraftId ? { ...d, notes, updatedAt: Date.now() } : d)));
+  // メモは入っている案件なら開いた状態で出す（入力中に空にしても閉じない）
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const notesOpen = useMemo(() => !!activeDraft?.notes, [activeDraftId]);
+
+  /** === PWA：更新の通知・ホーム画面への追加・共有で受け取った文面から案件を作る === */
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [install, setInstall] = useState<(() => Promise<boolean>) | null>(null);
+  const [iosHint, setIosHint] = useState(() => isIos() && !isStandalone());
+  useEffect(() => {
+    registerServiceWorker((apply) => setApplyUpdate(() => apply));
+    return watchInstallPrompt((fn) => setInstall(() => fn));
+  }, []);
+  useEffect(() => {
+    const shared = readSharedContent(window.location.search);
+    if (!shared) return;
+    // 先に URL から外す（読み込み直しや StrictMode の2回目で二重に作らない）
+    clearShareParams();
+    const name = sharedDraftName(shared) || t("draft.defaultName", { n: drafts.length + 1 });
+    const d = newDraft(name, { tplId: activeTplId, notes: [shared.title, shared.text].filter(Boolean).join("\n") });
+    setDrafts((prev) => [...prev, d]);
+    loadDraft(d);
+    showNotice(t("draft.fromShare", { name }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
+  /** === コピー（できなければ画面下に選択用のプレビューを出す） === */
+  const [copied, setCopied] = useState<"output" | "link" | null>(null);
+  const copiedTimer = useRef<number | null>(null);
+  const [copyPreview, setCopyPreview] = useState<{ text: string; html?: string } | null>(null);
+  const copyWithPreview = async (what: "output" | "link", text: string, html?: string) => {
+    if (!(await writeClipboard(text, html))) {
+      setCopyPreview({ text, html });
+      return;
+    }
+    setCopyPreview(null);
+    setCopied(what);
+    if (copiedTimer.current) window.clearTimeout(copiedTimer.current);
+    copiedTimer.current = window.setTimeout(() => setCopied(null), 2000);
+  };
   const copy = async () => {
+    if (outputFormat === "html") await copyWithPreview("output", outputText, richText);
+    else await copyWithPreview("output", outputFormat === "text" ? outputText : richText);
+    recordProposal();
+  };
+  // 端末の共有メニュー（送れたときだけ提案として記録。閉じただけなら何もしない）
+  const canShare = typeof navigator.share === "function";
+  const shareOutput = async () => {
     try {
-      await navigator.clipboard.writeText(outputText);
-      alert("コピーしました！");
-    } catch {
-      prompt("コピーできない場合は手動で選択してコピーしてください：", outputText);
+      await navigator.share({ title: rendered.subject || undefined, text: outputText });
+      recordProposal();
+    } catch (err) {
+      if ((err as Error).name !== "AbortError") alert(t("output.shareFailed", { message: (err as Error).message }));
+    }
+  };
+
+  /** === 共有リンク・返信コード === */
+  const [replyInput, setReplyInput] = useState("");
+  const shareLink = useMemo(
+    () =>
+      shareUrl({
+        name: myName.trim(),
+        tz: myTz,
+        slots: selectedSlotsSorted.map((s) => {
+          const duration = effectiveDuration(s, { duration: meetingDuration });
+          return { dateISO: s.dateISO, start: s.start, end: s.end, ...(duration ? { duration } : {}) };
+        }),
+      }),
+    [myName, myTz, selectedSlotsSorted, meetingDuration]
+  );
+  const copyShareLink = () => copyWithPreview("link", shareLink);
+  // 相手の返信（コード入り）を貼り付けて、選ばれた枠を確定にする
+  const applyReply = () => {
+    const r = parseReplyCode(replyInput);
+    if (!r) {
+      alert(t("share.noCode"));
+      return;
+    }
+    if (r.none) {
+      alert(t("share.noneFit"));
+      setReplyInput("");
+      return;
+    }
+    const hit = slots.find((s) => s.dateISO === r.dateISO && s.start === r.start);
+    if (!hit) {
+      alert(t("share.notInDraft", { date: dateLabel(r.dateISO, "fmt.mdw"), time: formatTime(r.start, uiTime) }));
+      return;
+    }
+    confirmSlot({ slot: hit, start: hit.start, end: hit.end });
+  };
+  // 返信コードがなければ、文章の日時（「9月26日の14時から」など）に合う候補を探す
+  const replyMatches = useMemo(
+    () =>
+      !replyInput.trim() || parseReplyCode(replyInput)
+        ? []
+        : matchReply(replyInput, selectedSlotsSorted, todayISO, { duration: meetingDuration }),
+    [replyInput, selectedSlotsSorted, todayISO, meetingDuration]
+  );
+  /**
+   * 選ばれた枠を確定にして、確定連絡のテンプレに切り替える（なければ初期のものを足す）
+   * 会議が枠より短いときは、選ばれた時間に枠を縮める
+   */
+  const confirmSlot = ({ slot, start, end }: ReplyMatch) => {
+    const narrowed = start !== slot.start || end !== slot.end;
+    // 確定は1案件につき1枠
+    setSlots((prev) =>
+      prev.map((s) =>
+        s.id === slot.id
+          ? { ...s, start, end, confirmed: true, ...(narrowed ? { duration: undefined } : {}) }
+          : { ...s, confirmed: undefined }
+      )
+    );
+    setDraftStatus("confirmed");
+    setReplyInput("");
+    const tpl = templates.find(isConfirmTemplate);
+    if (tpl) setActiveTplId(tpl.id);
+    else {
+      const added = { ...confirmTemplate(outputLocale), id: newTplId() };
+      setTemplates((prev) => [...prev, added]);
+      setActiveTplId(added.id);
+    }
+    showNotice(t("reply.confirmed", { date: dateLabel(slot.dateISO, "fmt.mdw"), range: rangeLabel(start, end) }));
+  };
+
+  /** === バックアップ（全 uid） === */
+  const [restore, setRestore] = useState<null | { exportedAt: string; data: StoreData; diff: DiffRow[] }>(null);
+  const exportBackup = () =>
+    downloadText(`appoint-backup-${todayISO}.json`, backupToJson(readStore()), "application/json");
+  const importBackup = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { exportedAt, data } = parseBackupJson(await file.text());
+      setRestore({ exportedAt, data, diff: diffStore(readStore(), data) });
+    } catch (err) {
+      alert(t("common.loadFailed", { message: errorText(err, t) }));
+    }
+  };
+  const diffValueText = (v: DiffValue) =>
+    v.kind === "value" ? v.value : t(`backup.value.${v.kind}`, v.kind === "count" ? { n: v.n } : undefined);
+  const applyRestore = (mode: "merge" | "replace") => {
+    if (!restore) return;
+    const msg =
+      mode === "replace"
+        ? t("backup.confirmReplace")
+        : t("backup.confirmMerge");
+    if (!confirm(msg)) return;
+    writeStore(mode === "replace" ? restore.data : mergeStore(readStore(), restore.data));
+    window.location.reload();
+  };
+
+  /** === 端末間の同期（同期サーバー。タブ間は useSafeLocalStorage が storage イベントで同期） === */
+  const [syncSettings, setSyncSettings] = useSafeLocalStorage<{ url: string; token: string; enabled: boolean }>(
+    SYNC_SETTINGS_KEY(uid),
+    { url: "", token: "", enabled: false }
+  );
+  const [syncStatus, setSyncStatus] = useState<{ busy: boolean; at: number; error?: string }>(() => ({
+    busy: false,
+    at: loadSyncState(uid).at,
+  }));
+  const syncing = useRef(false);
+  const runSync = async () => {
+    const url = syncSettings.url.trim();
+    if (!url || syncing.current || storageSchema.newer) return;
+    syncing.current = true;
+    setSyncStatus((s) => ({ ...s, busy: true }));
+    try {
+      const sent = syncedData(readStore(), uid);
+      const { data, state } = await syncWithServer({ url, uid, token: syncSettings.token.trim() }, loadSyncState(uid), sent);
+      applySyncedData(sent, data);
+      saveSyncState(uid, state);
+      setSyncStatus({ busy: false, at: state.at });
+    } catch (err) {
+      setSyncStatus((s) => ({ ...s, busy: false, error: errorText(err, t) }));
+    } finally {
+      syncing.current = false;
+    }
+  };
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
+  // 自動同期：起動時・一定間隔・画面に戻ったとき
+  useEffect(() => {
+    if (!syncSettings.enabled || !syncSettings.url.trim()) return;
+    const sync = () => void runSyncRef.current();
+    sync();
+    const timer = window.setInterval(sync, 30 * 1000);
+    window.addEventListener("focus", sync);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener("focus", sync);
+    };
+  }, [syncSettings.enabled, syncSettings.url]);
+  // 手元で編集したら少し待って送る
+  useEffect(() => {
+    if (!syncSettings.enabled || !syncSettings.url.trim()) return;
+    const timer = window.setTimeout(() => void runSyncRef.current(), 3000);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftFields, drafts, templates, contacts]);
+
+  /** === 連絡先 === */
+  const activeContact = contacts.find((c) => c.id === activeContactId);
+  const selectContact = (id: string) => {
+    setActiveContactId(id);
+    const c = contacts.find((x) => x.id === id);
+    if (!c) return;
+    setToName(c.name);
+    setToCompany(c.company);
+    setToHonorific(c.honorific);
+    setRecipientTz(c.timeZone ?? "");
+    if (c.tplId && templates.some((t) => t.id === c.tplId)) setActiveTplId(c.tplId);
+  };
+  const updateContact = (id: string, patch: Partial<Contact>) =>
+    setContacts((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  // 今の宛先欄から連絡先を作る
+  const addContactFromFields = () => {
+    const c = newContact({
+      name: toName.trim(),
+      company: toCompany.trim(),
+      honorific: toHonorific.trim() || (outputLocale === "ja" ? "様" : ""),
+      tplId: activeTplId,
+      timeZone: recipientTz || undefined,
+    });
+    setContacts((prev) => [...prev, c]);
+    setActiveContactId(c.id);
+  };
+  const deleteContact = (id: string) => {
+    const c = contacts.find((x) => x.id === id);
+    if (!confirm(t("contacts.confirmDelete", { name: c?.name || t("common.untitled") }))) return;
+    setContacts((prev) => prev.filter((x) => x.id !== id));
+    if (activeContactId === id) setActiveContactId("");
+  };
+  // コピーした提案を選択中の連絡先の履歴に残す
+  const recordProposal = () => {
+    if (!activeContact || selectedSlotsSorted.length === 0) return;
+    updateContact(
+      activeContact.id,
+      addProposal(activeContact, {
+        at: Date.now(),
+        tplName: activeTpl?.name || "",
+        slots: selectedSlotsSorted.map(({ dateISO, start, end }) => ({ dateISO, start, end })),
+        text: outputText,
+      })
+    );
+  };
+  const exportContactsCsv = () =>
+    downloadText(`appoint-contacts-${uid}.csv`, contactsToCsv(contacts, templates), "text/csv");
+  const importContactsCsv = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const incoming = contactsFromCsv(await file.text(), templates);
+      // 同じ会社・名前の連絡先は更新（履歴は残す）、それ以外は追加
+      setContacts((prev) => {
+        const next = [...prev];
+        for (const c of incoming) {
+          const i = next.findIndex((x) => x.name === c.name && x.company === c.company);
+          if (i >= 0) next[i] = { ...c, id: next[i].id, history: next[i].history };
+          else next.push(c);
+        }
+        return next;
+      });
+      showNotice(t("contacts.imported", { n: incoming.length }));
+    } catch (err) {
+      alert(t("common.loadFailed", { message: errorText(err, t) }));
     }
   };
 
+  /** === 仮押さえ .ics 書き出し === */
+  // 同じ UID のまま内容が変わった枠は SEQUENCE を上げ、カレンダー側で更新として扱わせる
+  const exportHoldsIcs = () => {
+    const summary = tOut("output.holdSummary", { name: toName.trim() || tOut("output.noName"), tpl: activeTpl?.name || tOut("output.holdDefault") });
+    const holds = selectedSlotsSorted.map((s) => ({
+      id: s.id,
+      startMs: slotEpoch(s.dateISO, s.start, myTz),
+      endMs: slotEpoch(s.dateISO, s.end, myTz),
+    }));
+    // 前回この案件から書き出した後に消した枠は取り消しとして出力
+    const { events, next } = holdEvents(draftExports, holds, summary);
+    if (events.length === 0) return;
+    downloadText(`appoint-holds-${uid}.ics`, buildHoldsIcs(events), "text/calendar");
+    setIcsExports((prev) => ({ ...prev, [activeDraftId]: next }));
+  };
+
   /** === カレンダー操作 === */
   const prevMonth = () => {
     const d = new Date(year, month - 1, 1);
@@ -392,29 +1540,56 @@ export default function App() {
   const weekdayClasses = ["", "", "", "", "", "text-blue-600", "text-red-600"];
 
   /** === 候補一覧（削除つき） === */
+  // 枠ごとの会議の長さ（undefined で案件の設定に従う）
+  const setSlotDuration = (id: string, duration?: number) =>
+    setSlots((prev) => prev.map((s) => (s.id === id ? { ...s, duration } : s)));
+
   function renderGroupedListWithRemove() {
     const grouped: Record<string, Slot[]> = {};
     selectedSlotsSorted.forEach((s) => ((grouped[s.dateISO] ??= []).push(s)));
     const keys = Object.keys(grouped).sort();
-    if (keys.length === 0) return <div className="text-sm text-gray-400">（候補なし）</div>;
+    if (keys.length === 0) return <div className="text-sm text-gray-400">{t("common.noCandidates")}</div>;
     return (
       <div className="space-y-2">
         {keys.map((iso) => {
-          const d = new Date(iso + "T00:00:00");
-          const title = `${d.getMonth() + 1}月${d.getDate()}日（${"月火水木金土日"[weekdayMonStart(d.getDay())]}）`;
+          const title = dateLabel(iso, "fmt.mdw");
+          const off = dayOffName(iso, closures);
           return (
             <div key={iso}>
-              <div className="text-sm font-semibold mb-1">{title}</div>
+              <div className="text-sm font-semibold mb-1">
+                {title}
+                {off && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-red-50 border border-red-200 text-[11px] font-normal text-red-600">
+                    {off}
+                  </span>
+                )}
+              </div>
               <div className="flex flex-wrap gap-2">
                 {grouped[iso].map((s) => (
-                  <div key={s.id} className="flex items-center gap-1 text-xs border rounded px-2 py-1 bg-white">
-                    <span>{mm(s.start)}〜{mm(s.end)}</span>
+                  <div
+                    key={s.id}
+                    className={`flex items-center gap-1 text-xs border rounded px-2 py-1 ${
+                      s.confirmed ? "bg-teal-50 border-teal-500" : "bg-white"
+                    }`}
+                  >
+                    <span>{rangeLabel(s.start, s.end)}</span>
+                    {s.confirmed && <span className="px-1 rounded bg-teal-600 text-white text-[10px]">{t("common.confirmed")}</span>}
+                    <select
+                      className="px-0.5 rounded border text-[11px] text-gray-600"
+                      aria-label={t("list.slotDuration")}
+                      title={t("list.slotDuration")}
+                      value={s.duration ?? ""}
+                      onChange={(e) => setSlotDuration(s.id, e.target.value ? Number(e.target.value) : undefined)}
+                    >
+                      <option value="">{t("list.durationDefault")}</option>
+                      {MEETING_DURATIONS.map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+                    </select>
                     <button
                       className="text-red-600 hover:underline"
                       onClick={() => removeSlot(s.id)}
                       onPointerDown={(e) => e.stopPropagation()}
                     >
-                      削除
+                      {t("common.delete")}
                     </button>
                   </div>
                 ))}
@@ -426,189 +1601,1210 @@ export default function App() {
     );
   }
 
-  /** === テンプレUI（3枠・保存） === */
-  const renameTemplate = (id: string, name: string) =>
-    setTemplates(prev => prev.map(t => t.id === id ? { ...t, name } : t));
-  const updateTemplateContent = (id: string, content: string) =>
-    setTemplates(prev => prev.map(t => t.id === id ? { ...t, content } : t));
-  const resetTemplate = (id: string) =>
-    setTemplates(prev => prev.map(t => t.id === id ? { ...t, content: "" } : t));
+  /** === テンプレUI（ライブラリ・版管理・保存） === */
+  // 編集はすべて applyEdit 経由（一定間隔で編集前の版を履歴に残す）
+  const editTemplate = (id: string, fn: (t: Tpl) => Partial<Tpl>) =>
+    setTemplates(prev => prev.map(t => t.id === id ? applyEdit(t, fn(t)) : t));
+  const renameTemplate = (id: string, name: string) => editTemplate(id, () => ({ name }));
+  const updateTemplateContent = (id: string, content: string) => editTemplate(id, () => ({ content }));
+  const resetTemplate = (id: string) => {
+    if (!confirm(t("tpl.confirmClear"))) return;
+    setTemplates(prev => prev.map(t => t.id === id ? { ...snapshot(t), content: "" } : t));
+    showUndoToast(t("tpl.cleared"));
+  };
+  const updateTemplateVars = (id: string, fn: (vars: TplVar[]) => TplVar[]) =>
+    editTemplate(id, (t) => ({ vars: fn(t.vars ?? []) }));
+  const updateBuffer = (id: string, patch: Partial<SlotBuffer>) =>
+    editTemplate(id, (tpl) => ({ buffer: { ...(tpl.buffer ?? NO_BUFFER), ...patch } }));
+  const updateListFormat = (id: string, patch: Partial<ListFormat>) =>
+    editTemplate(id, (tpl) => ({ listFormat: { ...(tpl.listFormat ?? DEFAULT_LIST_FORMATS[outputLocale]), ...patch } }));
+  const setTemplateCategory = (id: string, category: string) =>
+    setTemplates(prev => prev.map(t => t.id === id ? { ...t, category: category || undefined } : t));
+
+  const addTemplate = () => {
+    const tpl: Tpl = { id: newTplId(), name: t("tpl.newName"), content: "", category: tplCategory || undefined };
+    setTemplates(prev => [...prev, tpl]);
+    setActiveTplId(tpl.id);
+  };
+  const duplicateTemplate = (id: string) => {
+    const src = templates.find(t => t.id === id);
+    if (!src) return;
+    const copyTpl = duplicateTpl(src, t("tpl.copyName", { name: src.name || t("common.untitled") }));
+    setTemplates(prev => {
+      const i = prev.findIndex(t => t.id === id);
+      return [...prev.slice(0, i + 1), copyTpl, ...prev.slice(i + 1)];
+    });
+    setActiveTplId(copyTpl.id);
+  };
+  const deleteTemplate = (id: string) => {
+    if (templates.length <= 1) return;
+    const name = templates.find(x => x.id === id)?.name || t("common.untitled");
+    if (!confirm(t("tpl.confirmDelete", { name }))) return;
+    const i = templates.findIndex(x => x.id === id);
+    const rest = templates.filter(x => x.id !== id);
+    setTemplates(rest);
+    setActiveTplId(rest[Math.min(i, rest.length - 1)].id);
+    showUndoToast(t("tpl.deleted", { name }));
+  };
+  const restoreTemplate = (id: string, rev: TplRevision) => {
+    if (!confirm(t("tpl.confirmRestore", { at: new Date(rev.at).toLocaleString(uiLocale) }))) return;
+    setTemplates(prev => prev.map(t => t.id === id ? restoreRevision(t, rev) : t));
+  };
+  const resetAll = () => {
+    if (!confirm(t("to.confirmReset"))) return;
+    setToName("");
+    setToCompany("");
+    setToHonorific("");
+    setActiveContactId("");
+    setTemplates(defaultTemplates(outputLocale));
+    setActiveTplId("tpl-1");
+    showUndoToast(t("to.resetDone"));
+  };
+  // 文面の言語の初期テンプレを（別 id で）足す
+  const addDefaultTemplates = () => {
+    const added = defaultTemplates(outputLocale).map((tpl) => ({ ...tpl, id: newTplId() }));
+    setTemplates(prev => [...prev, ...added]);
+    setActiveTplId(added[0].id);
+    showNotice(t("tpl.defaultsAdded", { n: added.length }));
+  };
+
+  // 分類での絞り込み
+  const [tplCategory, setTplCategory] = useState("");
+  const tplCategories = useMemo(
+    () => [...new Set(templates.map(t => t.category).filter((c): c is string => !!c))].sort(),
+    [templates]
+  );
+  const visibleTemplates = tplCategory ? templates.filter(t => t.category === tplCategory) : templates;
+
+  // JSON 入出力
+  const exportTemplates = () =>
+    downloadText(`appoint-templates-${uid}.json`, templatesToJson(templates), "application/json");
+  const importTemplates = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const incoming = parseTemplatesJson(await file.text());
+      const replace = confirm(
+        t("tpl.confirmImport", { n: incoming.length })
+      );
+      setTemplates(prev => (replace ? incoming : mergeTemplates(prev, incoming)));
+      if (replace && incoming[0]) setActiveTplId(incoming[0].id);
+    } catch (err) {
+      alert(t("common.loadFailed", { message: errorText(err, t) }));
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <div className="mx-auto max-w-md p-4">
+      <div className={`mx-auto max-w-md p-4 ${layout === "week" ? "md:max-w-3xl" : ""}`}>
         <div className="flex items-center justify-between">
-          <h1 className="text-2xl font-bold mb-3">アポイント文作成</h1>
-          <div className="text-[11px] text-gray-500">UID: <span className="font-mono">{uid}</span></div>
-        </div>
-
-        {/* === カレンダー === */}
-        <div className="bg-white rounded-xl shadow p-3 mb-4">
-          <div className="flex items-center justify-between mb-2">
-            <button onClick={prevMonth} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">←</button>
-            <div className="font-semibold">{year}年 {month + 1}月</div>
-            <button onClick={nextMonth} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">→</button>
+          <h1 className="text-2xl font-bold mb-3">{t("app.title")}</h1>
+          <div className="flex items-center gap-2">
+            <button
+              className="px-2 py-1 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-30"
+              disabled={!history.past.length}
+              onClick={undo}
+              title={t("app.undo")}
+            >
+              ↶
+            </button>
+            <button
+              className="px-2 py-1 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-30"
+              disabled={!history.future.length}
+              onClick={redo}
+              title={t("app.redo")}
+            >
+              ↷
+            </button>
+            <select
+              className="px-1 py-1 rounded border text-xs"
+              value={uiLocale}
+              onChange={(e) => setUiLocale(e.target.value as Locale)}
+              aria-label={t("app.uiLocale")}
+              title={t("app.uiLocale")}
+            >
+              {LOCALES.map((l) => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+            <div className="text-[11px] text-gray-500">UID: <span className="font-mono">{uid}</span></div>
           </div>
-          <div className="grid grid-cols-7 gap-1 text-center text-sm font-medium mb-1">
-            {["月","火","水","木","金","土","日"].map((w, i) => (
-              <div key={w} className={weekdayClasses[i]}>{w}</div>
-            ))}
+        </div>
+        {applyUpdate && (
+          <div className="mb-3 px-3 py-2 rounded bg-teal-50 border border-teal-300 text-xs text-teal-800 flex items-center gap-2">
+            <span className="flex-1">{t("app.updateReady")}</span>
+            <button className="px-2 py-1 rounded bg-teal-600 text-white hover:bg-teal-700" onClick={applyUpdate}>
+              {t("app.update")}
+            </button>
           </div>
-          <div className="grid grid-cols-7 gap-1">
-            {weeks.flat().map((d, idx) => {
-              if (!d) return <div key={idx} className="h-10 rounded bg-transparent" />;
-              const iso = toISODate(d);
-              const isActive = iso === activeDateISO;
-              const isToday = iso === todayISO;
-              const wd = weekdayMonStart(d.getDay());
-              const wkClass = wd === 5 ? "text-blue-600" : wd === 6 ? "text-red-600" : "";
-              
-              return (
-                <button
-                  key={iso}
-                  onClick={() => setActiveDateISO(iso)}
-                  className={`h-10 rounded-lg border text-sm relative ${wkClass} ${
-                    isActive 
-                      ? "bg-teal-100 border-teal-300" 
-                      : isToday 
-                        ? "bg-gray-100 border-gray-400 font-bold" 
-                        : "bg-white border-gray-200 hover:bg-gray-50"
-                  }`}
-                >
-                  {d.getDate()}
-                  {isToday && (
-                    <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 bg-blue-500 rounded-full"></span>
-                  )}
+        )}
+        {(install || iosHint) && (
+          <div className="mb-3 px-3 py-2 rounded bg-white border text-xs text-gray-700 flex items-center gap-2">
+            {install ? (
+              <>
+                <span className="flex-1">{t("app.installTitle")}</span>
+                <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={() => void install()}>
+                  {t("app.install")}
                 </button>
-              );
-            })}
+              </>
+            ) : (
+              <span className="flex-1">{t("app.iosInstall")}</span>
+            )}
+            <button
+              className="text-gray-500 hover:underline"
+              onClick={() => {
+                setInstall(null);
+                setIosHint(false);
+              }}
+            >
+              {t("app.dismiss")}
+            </button>
+          </div>
+        )}
+        {storageSchema.newer && (
+          <div className="mb-3 px-3 py-2 rounded bg-amber-50 border border-amber-300 text-xs text-amber-800">
+            {t("app.newerSchema")}
+          </div>
+        )}
+
+        {/* === 案件（下書き） === */}
+        <div className="bg-white rounded-xl shadow p-3 mb-4">
+          <div className="flex gap-2 items-center">
+            <select
+              className="flex-1 min-w-0 px-2 py-1.5 rounded border text-sm"
+              value={activeDraftId}
+              onChange={(e) => {
+                const d = drafts.find((x) => x.id === e.target.value);
+                if (d) loadDraft(d);
+              }}
+            >
+              {drafts.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {t("draft.option", { name: d.name, status: statusLabel(d.status), n: d.slots.length })}
+                </option>
+              ))}
+            </select>
+            <select
+              className={`px-1 py-1.5 rounded border text-sm ${activeDraft && isOpenDraft(activeDraft) ? "" : "text-gray-500"}`}
+              value={activeDraft?.status ?? "draft"}
+              onChange={(e) => setDraftStatus(e.target.value as DraftStatus)}
+            >
+              {DRAFT_STATUSES.map((k) => (
+                <option key={k} value={k}>{statusLabel(k)}</option>
+              ))}
+            </select>
           </div>
+          <div className="flex gap-3 mt-2 text-xs">
+            <button className="text-teal-700 hover:underline" onClick={createDraft}>{t("draft.new")}</button>
+            <button className="text-gray-600 hover:underline" onClick={renameDraft}>{t("draft.rename")}</button>
+            <span className="flex-1" />
+            <button
+              className="text-red-600 hover:underline disabled:opacity-40"
+              disabled={drafts.length <= 1}
+              onClick={deleteDraft}
+            >
+              {t("common.delete")}
+            </button>
+          </div>
+          <details key={activeDraftId} className="mt-2" open={notesOpen}>
+            <summary className="text-xs text-gray-600 cursor-pointer">{t("draft.notes")}</summary>
+            <textarea
+              className="mt-1 w-full h-24 px-2 py-1 rounded border text-sm"
+              value={activeDraft?.notes ?? ""}
+              placeholder={t("draft.notesPlaceholder")}
+              onChange={(e) => setDraftNotes(e.target.value)}
+            />
+          </details>
         </div>
 
-        {/* === 時間トラック（長押し→30分枠 / ○ボタンでリサイズのみ） === */}
+        {/* === カレンダー（週表示では隠す） === */}
+        {layout === "day" && (
+          <div className="bg-white rounded-xl shadow p-3 mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <button onClick={prevMonth} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">←</button>
+              <div className="font-semibold">{monthTitle}</div>
+              <button onClick={nextMonth} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">→</button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center text-sm font-medium mb-1">
+              {WEEKDAYS[uiLocale].map((w, i) => (
+                <div key={w} className={weekdayClasses[i]}>{w}</div>
+              ))}
+            </div>
+            <div className="grid grid-cols-7 gap-1" role="group" aria-label={monthTitle}>
+              {weeks.flat().map((d, idx) => {
+                if (!d) return <div key={idx} className="h-10 rounded bg-transparent" />;
+                const iso = toISODate(d);
+                const isActive = iso === activeDateISO;
+                const isToday = iso === todayISO;
+                const wd = weekdayMonStart(d.getDay());
+                const off = dayOffName(iso, closures);
+                const wkClass = off || wd === 6 ? "text-red-600" : wd === 5 ? "text-blue-600" : "";
+                const busyRatio = Math.min(1, busyMinutes(busyByDate[iso] ?? []) / BUSY_FULL_MINUTES);
+                // 全員が空いている時間の合計
+                const commonMinutes = showGroup
+                  ? (groupHeatByDate[iso] ?? []).reduce((n, g) => (g.count >= groupTotal ? n + g.end - g.start : n), 0)
+                  : 0;
+              
+                // 選択中の日が表示月にないときは1日を Tab の入口にする
+                const focusable = activeDateISO.slice(0, 7) === iso.slice(0, 7) ? isActive : d.getDate() === 1;
+                const count = slotCountByDate[iso] ?? 0;
+                return (
+                  <button
+                    key={iso}
+                    data-drop-date={iso}
+                    onClick={() => setActiveDateISO(iso)}
+                    onKeyDown={(e) => onCalendarKeyDown(e, iso)}
+                    tabIndex={focusable ? 0 : -1}
+                    aria-pressed={isActive}
+                    aria-current={isToday ? "date" : undefined}
+                    aria-label={`${dateLabel(iso, "fmt.mdw")}${off ? ` ${off}` : ""}${count ? t("calendar.cellCount", { n: count }) : ""}${
+                      commonMinutes ? t("group.cellCommon", { time: formatDuration(commonMinutes, uiLocale) }) : ""
+                    }`}
+                    title={off}
+                    className={`h-10 rounded-lg border text-sm relative ${wkClass} ${
+                      dropDate === iso
+                        ? "bg-teal-200 border-teal-600 ring-2 ring-teal-500"
+                        : isActive 
+                        ? "bg-teal-100 border-teal-300" 
+                        : isToday 
+                          ? "bg-gray-100 border-gray-400 font-bold" 
+                          : "bg-white border-gray-200 hover:bg-gray-50"
+                    }`}
+                  >
+                    {d.getDate()}
+                    {isToday && (
+                      <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 bg-blue-500 rounded-full"></span>
+                    )}
+                    {/* 祝日・休業日 */}
+                    {off && (
+                      <span className="absolute top-0 left-0.5 text-[9px] leading-tight text-red-500 max-w-[90%] truncate">
+                        {off.slice(0, 4)}
+                      </span>
+                    )}
+                    {/* 全員が空いている時間（複数人の空き） */}
+                    {commonMinutes > 0 && (
+                      <span
+                        className="absolute left-1 bottom-2 h-1 rounded-full bg-indigo-500"
+                        style={{ width: `calc((100% - 0.5rem) * ${Math.min(1, commonMinutes / BUSY_FULL_MINUTES)})` }}
+                      />
+                    )}
+                    {/* 混雑度（取り込んだ予定の合計時間） */}
+                    {busyRatio > 0 && (
+                      <span
+                        className={`absolute left-1 bottom-0.5 h-1 rounded-full ${
+                          busyRatio >= 0.75 ? "bg-red-400" : busyRatio >= 0.4 ? "bg-amber-400" : "bg-gray-400"
+                        }`}
+                        style={{ width: `calc((100% - 0.5rem) * ${busyRatio})` }}
+                      />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* === 時間トラック（長押し→ドラッグで作成 / バンドを長押し→ドラッグで移動・日付へ移動 / ○ボタンでリサイズ） === */}
         <div className="bg-white rounded-xl shadow p-3 mb-4">
-          <div className="text-sm font-medium mb-2">{activeDateISO} の時間選択</div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium">
+              {layout === "day" ? t("track.dayTitle", { date: activeDateISO }) : t("track.weekTitle")}
+              <span className="ml-1 text-[11px] font-normal text-gray-500">{uiLocale === "ja" ? `（${myTz}）` : `(${myTz})`}</span>
+            </div>
+            <div className="flex rounded border overflow-hidden text-xs">
+              {(["day", "week"] as const).map((v) => (
+                <button
+                  key={v}
+                  className={`px-2 py-1 ${layout === v ? "bg-teal-600 text-white" : "bg-white hover:bg-gray-50"}`}
+                  onClick={() => setLayout(v)}
+                >
+                  {v === "day" ? t("track.layoutDay") : t("track.layoutWeek")}
+                </button>
+              ))}
+            </div>
+          </div>
+          {layout === "week" ? (
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <button onClick={() => shiftWeek(-1)} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">←</button>
+              <div className="font-semibold">
+                {dateLabel(trackDays[0])}{uiLocale === "ja" ? "〜" : " – "}{dateLabel(trackDays[trackDays.length - 1])}
+              </div>
+              <div className="flex items-center gap-1">
+                <select
+                  className="px-1 py-1 rounded border text-xs"
+                  value={weekLength}
+                  onChange={(e) => setWeekLength(Number(e.target.value) === 7 ? 7 : 5)}
+                >
+                  <option value={5}>{t("track.weekdays")}</option>
+                  <option value={7}>{t("track.sevenDays")}</option>
+                </select>
+                <button onClick={() => shiftWeek(1)} className="px-3 py-1 rounded bg-gray-100 hover:bg-gray-200">→</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end mb-2">
+              <label className="text-[11px] text-gray-600 flex items-center gap-1" title={t("track.dropTitle")}>
+                {t("track.dropLabel")}
+                <select
+                  className="px-1 py-0.5 rounded border text-[11px]"
+                  value={dropMode}
+                  onChange={(e) => setDropMode(e.target.value as "move" | "copy")}
+                >
+                  <option value="move">{t("track.dropMove")}</option>
+                  <option value="copy">{t("track.dropCopy")}</option>
+                </select>
+              </label>
+            </div>
+          )}
+          {notice && (
+            <div role="status" className="mb-2 px-2 py-1 rounded border border-amber-300 bg-amber-50 text-xs text-amber-800">{notice}</div>
+          )}
+          {/* カーソル位置の読み上げ */}
+          <div className="sr-only" aria-live="polite">{trackFocused ? cursorLabel : ""}</div>
           <div
             ref={trackRef}
-            className="relative h-[420px] overflow-auto border rounded-lg select-none bg-gray-50"
+            className={`relative h-[420px] overflow-auto border rounded-lg select-none bg-gray-50 ${
+              layout === "week" ? "snap-x snap-mandatory scroll-pl-12" : ""
+            }`}
             onPointerDown={onTrackPointerDown}
             onPointerMove={onTrackPointerMove}
             onPointerUp={onTrackPointerUp}
             onPointerCancel={onTrackPointerUp}
+            tabIndex={0}
+            role="application"
+            aria-roledescription={t("track.role")}
+            aria-label={t("track.aria")}
+            onFocus={onTrackFocus}
+            onBlur={(e) => e.target === e.currentTarget && setTrackFocused(false)}
+            onKeyDown={onTrackKeyDown}
           >
-            {/* スクロールに追従する背景パターン */}
-            <div 
-              className="absolute left-0 w-full pointer-events-none"
-              style={{ height: TRACK_HEIGHT }}
-            >
-              {/* 30分線（細い線） */}
-              {Array.from({ length: 48 }).map((_, i) => {
-                const m = i * 30;
-                const y = minuteToY(m);
-                return (
-                  <div
-                    key={`30-${i}`}
-                    className="absolute left-0 right-0 border-t border-gray-300"
-                    style={{ top: y }}
-                  />
-                );
-              })}
-              {/* 1時間線（太い線） */}
-              {Array.from({ length: 25 }).map((_, i) => {
-                const m = i * 60;
-                const y = minuteToY(m);
+            {/* 週表示の見出し（縦スクロールしても残す） */}
+            {layout === "week" && (
+              <div className="sticky top-0 z-20 flex w-max min-w-full bg-white border-b">
+                <div className="sticky left-0 z-10 w-12 shrink-0 bg-white" />
+                {trackDays.map((iso) => {
+                  const off = dayOffName(iso, closures);
+                  const [y, m, d] = iso.split("-").map(Number);
+                  const wd = weekdayMonStart(new Date(y, m - 1, d).getDay());
+                  return (
+                    <button
+                      key={iso}
+                      className={`flex-1 min-w-[5.5rem] snap-start py-1 border-l text-xs ${
+                        off || wd === 6 ? "text-red-600" : wd === 5 ? "text-blue-600" : ""
+                      } ${iso === activeDateISO ? "bg-teal-50 font-semibold" : ""} ${iso === todayISO ? "underline" : ""}`}
+                      onClick={() => setActiveDateISO(iso)}
+                      title={off}
+                    >
+                      {dateLabel(iso, "fmt.shortW")}
+                      {off && <div className="text-[9px] leading-tight text-red-500 truncate px-1">{off}</div>}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            <div ref={trackBodyRef} className="relative flex w-max min-w-full" style={{ height: TRACK_HEIGHT }}>
+              {/* スクロールに追従する背景パターン */}
+              <div className="absolute inset-x-0 top-0 pointer-events-none" style={{ height: TRACK_HEIGHT }}>
+                {/* 30分線（細い線） */}
+                {Array.from({ length: 48 }).map((_, i) => {
+                  const m = i * 30;
+                  const y = minuteToY(m);
+                  return (
+                    <div
+                      key={`30-${i}`}
+                      className="absolute left-0 right-0 border-t border-gray-300"
+                      style={{ top: y }}
+                    />
+                  );
+                })}
+                {/* 1時間線（太い線） */}
+                {Array.from({ length: 25 }).map((_, i) => {
+                  const m = i * 60;
+                  const y = minuteToY(m);
+                  return (
+                    <div
+                      key={`60-${i}`}
+                      className="absolute left-0 right-0 border-t border-gray-500"
+                      style={{ top: y }}
+                    />
+                  );
+                })}
+              </div>
+
+              {/* 時刻目盛り（週表示では横スクロールしても左に残す） */}
+              <div
+                className={`sticky left-0 z-10 w-12 shrink-0 pointer-events-none ${
+                  layout === "week" ? "bg-gray-50 border-r" : ""
+                }`}
+              >
+                {Array.from({ length: 25 }).map((_, i) => {
+                  const hour = i;
+                  const m = hour * 60;
+                  const y = minuteToY(m);
+                  return (
+                    <div key={i} style={{ top: y - 8 }} className="absolute left-1 text-[11px] text-gray-600 font-medium bg-gray-50 px-1 rounded">
+                      {`${pad(hour)}:00`}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {trackDays.map((iso) => {
+                const week = layout === "week";
+                const inset = week ? "left-0.5 right-1" : "left-0 right-3";
+                const dayBusy = busyByDate[iso] ?? [];
+                const daySlots = slots.filter((s) => s.dateISO === iso).sort((a, b) => a.start - b.start);
                 return (
                   <div
-                    key={`60-${i}`}
-                    className="absolute left-0 right-0 border-t border-gray-500"
-                    style={{ top: y }}
-                  />
-                );
-              })}
-            </div>
+                    key={iso}
+                    data-track-date={iso}
+                    className={`relative flex-1 ${week ? "min-w-[5.5rem] snap-start border-l border-gray-300" : ""}`}
+                  >
+                    {/* 複数人の空き（濃いほど多くの人が空いている・全員なら左端に線） */}
+                    {showGroup &&
+                      (groupHeatByDate[iso] ?? []).map((g) => (
+                        <div
+                          key={`group-${g.start}`}
+                          className={`absolute inset-x-0 bg-indigo-500 pointer-events-none ${
+                            g.count >= groupTotal ? "border-l-4 border-indigo-600" : ""
+                          }`}
+                          style={{
+                            top: minuteToY(g.start),
+                            height: minuteToY(g.end) - minuteToY(g.start),
+                            opacity: 0.08 + (0.27 * g.count) / groupTotal,
+                          }}
+                          title={t("group.heat", { n: g.count, total: groupTotal })}
+                          aria-hidden
+                        />
+                      ))}
 
-            {/* 時刻目盛り */}
-            <div className="absolute left-0 top-0 w-full pointer-events-none">
-              {Array.from({ length: 25 }).map((_, i) => {
-                const hour = i;
-                const m = hour * 60;
-                const y = minuteToY(m);
-                return (
-                  <div key={i} style={{ top: y - 8 }} className="absolute left-2 text-[11px] text-gray-600 font-medium bg-gray-50 px-1 rounded">
-                    {`${pad(hour)}:00`}
+                    {/* 取り込んだ予定（バンドの背面） */}
+                    {dayBusy.map((b, i) => (
+                      <div
+                        key={`busy-${i}`}
+                        className={`absolute ${inset} rounded border border-gray-400/60 bg-gray-400/25 pointer-events-none overflow-hidden`}
+                        style={{ top: minuteToY(b.start), height: minuteToY(b.end) - minuteToY(b.start) }}
+                      >
+                        <div className="absolute right-1 top-0.5 text-[10px] text-gray-600 truncate max-w-[60%]">
+                          {b.summary || t("common.busy")}
+                        </div>
+                      </div>
+                    ))}
+
+                    {/* 前後の余白（移動時間など）：バンドの上下に薄く延ばす */}
+                    {held
+                      .filter((h) => h.dateISO === iso && (h.buffer.before > 0 || h.buffer.after > 0))
+                      .map((h) => {
+                        const b = withBuffer(h, h.buffer);
+                        return (
+                          <div
+                            key={`held-buffer-${h.draftId}-${h.id}`}
+                            className={`absolute ${inset} rounded-lg border border-dashed border-amber-300 bg-amber-200/15 pointer-events-none`}
+                            style={{ top: minuteToY(b.start), height: minuteToY(b.end) - minuteToY(b.start) }}
+                            aria-hidden
+                          />
+                        );
+                      })}
+                    {(activeBuffer.before > 0 || activeBuffer.after > 0) &&
+                      daySlots
+                        .filter((s) => dragging?.slotId !== s.id)
+                        .map((s) => {
+                          const b = withBuffer(s, activeBuffer);
+                          return (
+                            <div
+                              key={`buffer-${s.id}`}
+                              className={`absolute ${inset} rounded-lg border border-dashed border-teal-300 bg-teal-500/10 pointer-events-none`}
+                              style={{ top: minuteToY(b.start), height: minuteToY(b.end) - minuteToY(b.start) }}
+                              aria-hidden
+                            />
+                          );
+                        })}
+
+                    {/* ほかの案件で押さえている枠 */}
+                    {held
+                      .filter((h) => h.dateISO === iso)
+                      .map((h) => (
+                        <div
+                          key={`held-${h.draftId}-${h.id}`}
+                          className={`absolute ${inset} rounded-lg border border-dashed border-amber-500 bg-amber-200/30 pointer-events-none`}
+                          style={{ top: minuteToY(h.start), height: minuteToY(h.end) - minuteToY(h.start) }}
+                        >
+                          <div className="absolute right-1 bottom-0.5 text-[10px] text-amber-700 truncate max-w-[60%]">
+                            {t("slot.held", { name: h.draftName })}
+                          </div>
+                        </div>
+                      ))}
+
+                    {/* 既存バンド */}
+                    {daySlots.map((s) => {
+                      const top = minuteToY(s.start);
+                      const height = minuteToY(s.end) - minuteToY(s.start);
+                      const active = dragging?.slotId === s.id;
+                      const around = withBuffer(s, activeBuffer);
+                      const conflicted = !!findBusyOverlap(dayBusy, around.start, around.end);
+                      return (
+                        <div
+                          key={s.id}
+                          data-slot-id={s.id}
+                          role="group"
+                          aria-label={slotLabel(s)}
+                          className={`absolute ${inset} rounded-lg border select-none transition-opacity cursor-grab ${
+                            active
+                              ? "bg-teal-500/30 border-teal-700 shadow-md"
+                              : conflicted
+                                ? "bg-teal-500/20 border-red-500 border-2"
+                                : "bg-teal-500/20 border-teal-500"
+                          }`}
+                          style={{ 
+                            top, 
+                            height,
+                            transition: dragging?.slotId === s.id ? 'none' : 'all 150ms ease-out'
+                          }}
+                        >
+                          {/* 右上リサイズハンドル（○ボタン） - 85%の位置 */}
+                          <div
+                            className="resize-handle absolute w-4 h-4 bg-teal-600 rounded-full cursor-nw-resize touch-none hover:bg-teal-700 hover:scale-110 transition-all shadow-md"
+                            style={{ top: '-6px', right: '15%' }}
+                            onPointerDown={(e) => onHandleDown(e, "resize-start", s)}
+                            onKeyDown={(e) => onHandleKeyDown(e, "resize-start", s)}
+                            tabIndex={0}
+                            role="slider"
+                            aria-label={t("slot.startHandle", { label: slotLabel(s) })}
+                            aria-valuemin={0}
+                            aria-valuemax={s.end - grid.minSlot}
+                            aria-valuenow={s.start}
+                            aria-valuetext={formatTime(s.start, uiTime)}
+                          />
+                          {/* 左下リサイズハンドル（○ボタン） - 15%の位置 */}
+                          <div
+                            className="resize-handle absolute w-4 h-4 bg-teal-600 rounded-full cursor-se-resize touch-none hover:bg-teal-700 hover:scale-110 transition-all shadow-md"
+                            style={{ bottom: '-6px', left: '15%' }}
+                            onPointerDown={(e) => onHandleDown(e, "resize-end", s)}
+                            onKeyDown={(e) => onHandleKeyDown(e, "resize-end", s)}
+                            tabIndex={0}
+                            role="slider"
+                            aria-label={t("slot.endHandle", { label: slotLabel(s) })}
+                            aria-valuemin={s.start + grid.minSlot}
+                            aria-valuemax={1440}
+                            aria-valuenow={s.end}
+                            aria-valuetext={formatTime(s.end, uiTime)}
+                          />
+                          {/* ラベル & 削除 */}
+                          <div
+                            className={`absolute inset-0 flex justify-between pointer-events-none ${
+                              week ? "items-start px-1 py-0.5" : "items-center px-2 py-1"
+                            }`}
+                          >
+                            <div className={`${week ? "text-[10px] leading-tight" : "text-xs"} font-medium pointer-events-none`}>
+                              {rangeLabel(s.start, s.end)}
+                              {s.confirmed && <span className="ml-1 px-1 rounded bg-teal-600 text-white text-[10px]">{t("common.confirmed")}</span>}
+                            </div>
+                            <button
+                              className={`delete-btn text-[10px] rounded bg-white/90 border hover:bg-red-50 pointer-events-auto ${
+                                week ? "px-1 leading-tight" : "px-2 py-0.5"
+                              }`}
+                              style={{ marginRight: '1px' }}
+                              onClick={() => removeSlot(s.id)}
+                              onPointerDown={(e) => e.stopPropagation()}
+                              title={t("common.delete")}
+                              aria-label={t("slot.deleteLabel", { label: slotLabel(s) })}
+                            >
+                              {week ? "×" : t("common.delete")}
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {/* キーボードのカーソル */}
+                    {trackFocused && cursor?.dateISO === iso && (
+                      <div
+                        ref={cursorRef}
+                        className={`absolute ${inset} rounded ring-2 ring-offset-1 ring-blue-600 pointer-events-none`}
+                        style={{ top: minuteToY(cursor.minute), height: minuteToY(grid.step), scrollMarginTop: 40 }}
+                        aria-hidden
+                      />
+                    )}
+
+                    {/* ドラッグ中プレビュー（日付へドロップするときは出さない） */}
+                    {hoverRange && dragging && !dropDate && hoverRange.dateISO === iso && (
+                      <div
+                        className={`absolute ${inset} rounded-lg border-2 border-dashed border-teal-700 bg-teal-300/40 pointer-events-none`}
+                        style={{ 
+                          top: minuteToY(hoverRange.start), 
+                          height: minuteToY(hoverRange.end) - minuteToY(hoverRange.start),
+                          transition: 'all 100ms ease-out'
+                        }}
+                      >
+                        <div className="absolute left-1 top-1 text-xs font-semibold bg-white/90 px-1 rounded">
+                          {rangeLabel(hoverRange.start, hoverRange.end)}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 );
               })}
             </div>
+          </div>
+          <div className="mt-2 flex justify-end gap-3 text-[11px] text-gray-600">
+            <label className="flex items-center gap-1">
+              {t("track.step")}
+              <select
+                className="px-1 py-0.5 rounded border text-[11px]"
+                value={grid.step}
+                onChange={(e) => setGrid((g) => ({ ...g, step: Number(e.target.value) }))}
+              >
+                {STEP_OPTIONS.map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              {t("track.minSlot")}
+              <select
+                className="px-1 py-0.5 rounded border text-[11px]"
+                value={grid.minSlot}
+                onChange={(e) => setGrid((g) => ({ ...g, minSlot: Number(e.target.value) }))}
+              >
+                {MIN_SLOT_OPTIONS.map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+              </select>
+            </label>
+          </div>
+        </div>
 
-            {/* 既存バンド */}
-            {daySlots.map((s) => {
-              const top = minuteToY(s.start);
-              const height = minuteToY(s.end) - minuteToY(s.start);
-              const active = dragging?.slotId === s.id;
-              return (
-                <div
-                  key={s.id}
-                  className={`absolute left-12 right-3 rounded-lg border select-none transition-opacity ${
-                    active ? "bg-teal-500/30 border-teal-700 shadow-md" : "bg-teal-500/20 border-teal-500"
-                  }`}
-                  style={{ 
-                    top, 
-                    height,
-                    transition: dragging?.slotId === s.id ? 'none' : 'all 150ms ease-out'
-                  }}
-                >
-                  {/* 右上リサイズハンドル（○ボタン） - 85%の位置 */}
-                  <div
-                    className="resize-handle absolute w-4 h-4 bg-teal-600 rounded-full cursor-nw-resize touch-none hover:bg-teal-700 hover:scale-110 transition-all shadow-md"
-                    style={{ top: '-6px', right: '15%' }}
-                    onPointerDown={(e) => onHandleDown(e, "resize-start", s)}
+        {/* === まとめて入力 === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("bulk.title")}</summary>
+          <div className="mt-2 space-y-2 text-xs text-gray-600">
+            <textarea
+              className="w-full h-28 px-2 py-1 rounded border font-mono text-sm"
+              placeholder={t("bulk.placeholder")}
+              value={bulkText}
+              onChange={(e) => setBulkText(e.target.value)}
+            />
+            {bulkPreview.length > 0 && (
+              <ul className="space-y-1">
+                {bulkPreview.map((l) => (
+                  <li
+                    key={l.line}
+                    className={`px-2 py-1 rounded border ${l.error ? "bg-red-50 border-red-300" : "bg-gray-50"}`}
+                  >
+                    <div className="font-mono text-gray-500 truncate">
+                      {t("bulk.line", { n: l.line })} {l.text}
+                    </div>
+                    {l.error ? (
+                      <div className="text-red-700">{t(`bulk.error.${l.error}`)}</div>
+                    ) : (
+                      l.items.map((x, i) => (
+                        <div key={i} className={x.blocked ? "text-red-700" : x.warn ? "text-amber-700" : "text-gray-800"}>
+                          {dateLabel(x.dateISO, "fmt.mdw")} {rangeLabel(x.start, x.end)}
+                          {(x.blocked || x.warn) && <span className="ml-1 text-[11px]">{x.blocked || x.warn}</span>}
+                        </div>
+                      ))
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-[11px] text-gray-400">{t("bulk.hint")}</span>
+              <button
+                className="px-3 py-1.5 rounded bg-teal-600 text-white hover:bg-teal-700 text-sm disabled:opacity-40"
+                disabled={!bulkReady.length}
+                onClick={applyBulk}
+              >
+                {t("bulk.add", { n: bulkReady.length })}
+              </button>
+            </div>
+          </div>
+        </details>
+
+        {/* === 候補の自動提案 === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("suggest.title")}</summary>
+          <div className="mt-2 space-y-2 text-xs text-gray-600">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                {t("suggest.from")}
+                <input
+                  type="date"
+                  className="mt-0.5 w-full px-2 py-1 rounded border text-sm"
+                  value={suggestRange.fromISO}
+                  onChange={(e) => setSuggestRange((r) => ({ ...r, fromISO: e.target.value }))}
+                />
+              </label>
+              <label className="block">
+                {t("suggest.to")}
+                <input
+                  type="date"
+                  className="mt-0.5 w-full px-2 py-1 rounded border text-sm"
+                  value={suggestRange.toISO}
+                  onChange={(e) => setSuggestRange((r) => ({ ...r, toISO: e.target.value }))}
+                />
+              </label>
+            </div>
+            <div className="flex gap-2">
+              {WEEKDAYS[uiLocale].map((w, i) => (
+                <label key={w} className={`flex items-center gap-0.5 ${weekdayClasses[i]}`}>
+                  <input
+                    type="checkbox"
+                    checked={suggestRules.weekdays.includes(i)}
+                    onChange={(e) =>
+                      updateSuggestRules({
+                        weekdays: e.target.checked
+                          ? [...suggestRules.weekdays, i].sort()
+                          : suggestRules.weekdays.filter((x) => x !== i),
+                      })
+                    }
                   />
-                  {/* 左下リサイズハンドル（○ボタン） - 15%の位置 */}
-                  <div
-                    className="resize-handle absolute w-4 h-4 bg-teal-600 rounded-full cursor-se-resize touch-none hover:bg-teal-700 hover:scale-110 transition-all shadow-md"
-                    style={{ bottom: '-6px', left: '15%' }}
-                    onPointerDown={(e) => onHandleDown(e, "resize-end", s)}
+                  {w}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                {t("suggest.workHours")}
+                <span className="flex items-center gap-1 mt-0.5">
+                  <input
+                    type="time"
+                    step={900}
+                    className="w-full px-1 py-1 rounded border text-sm"
+                    value={mm(suggestRules.workStart)}
+                    onChange={(e) => updateSuggestRules({ workStart: hmToMin(e.target.value) })}
                   />
-                  {/* ラベル & 削除 */}
-                  <div className="absolute inset-0 flex items-center justify-between px-2 py-1 pointer-events-none">
-                    <div className="text-xs font-medium pointer-events-none">{mm(s.start)}〜{mm(s.end)}</div>
-                    <button
-                      className="delete-btn px-2 py-0.5 text-[10px] rounded bg-white/90 border hover:bg-red-50 pointer-events-auto"
-                      style={{ marginRight: '1px' }}
-                      onClick={() => removeSlot(s.id)}
-                      onPointerDown={(e) => e.stopPropagation()}
-                    >
-                      削除
-                    </button>
-                  </div>
-                </div>
-              );
-            })}
+                  〜
+                  <input
+                    type="time"
+                    step={900}
+                    className="w-full px-1 py-1 rounded border text-sm"
+                    value={mm(suggestRules.workEnd)}
+                    onChange={(e) => updateSuggestRules({ workEnd: hmToMin(e.target.value) })}
+                  />
+                </span>
+              </label>
+              <label className="block">
+                {t("suggest.lunch")}
+                <span className="flex items-center gap-1 mt-0.5">
+                  <input
+                    type="time"
+                    step={900}
+                    className="w-full px-1 py-1 rounded border text-sm"
+                    value={mm(suggestRules.lunchStart)}
+                    onChange={(e) => updateSuggestRules({ lunchStart: hmToMin(e.target.value) })}
+                  />
+                  〜
+                  <input
+                    type="time"
+                    step={900}
+                    className="w-full px-1 py-1 rounded border text-sm"
+                    value={mm(suggestRules.lunchEnd)}
+                    onChange={(e) => updateSuggestRules({ lunchEnd: hmToMin(e.target.value) })}
+                  />
+                </span>
+              </label>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <label className="block">
+                {t("suggest.duration")}
+                <select
+                  className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                  value={suggestRules.duration}
+                  onChange={(e) => updateSuggestRules({ duration: Number(e.target.value) })}
+                >
+                  {[30, 45, 60, 90, 120].map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                {t("suggest.lead")}
+                <input
+                  type="number"
+                  min={0}
+                  className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                  value={suggestRules.leadMinutes / 60}
+                  onChange={(e) => updateSuggestRules({ leadMinutes: Math.max(0, Number(e.target.value)) * 60 })}
+                />
+              </label>
+              <label className="block">
+                {t("suggest.perDay")}
+                <input
+                  type="number"
+                  min={1}
+                  className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                  value={suggestRules.perDay}
+                  onChange={(e) => updateSuggestRules({ perDay: Math.max(1, Number(e.target.value)) })}
+                />
+              </label>
+              <label className="block">
+                {t("suggest.count")}
+                <input
+                  type="number"
+                  min={1}
+                  className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                  value={suggestRules.count}
+                  onChange={(e) => updateSuggestRules({ count: Math.max(1, Number(e.target.value)) })}
+                />
+              </label>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={suggestRules.spread}
+                  onChange={(e) => updateSuggestRules({ spread: e.target.checked })}
+                />
+                {t("suggest.spread")}
+              </label>
+              <button className="px-3 py-1.5 rounded bg-teal-600 text-white hover:bg-teal-700 text-sm" onClick={runSuggest}>
+                {t("suggest.run")}
+              </button>
+            </div>
+            <div className="text-[11px] text-gray-400">{t("suggest.hint")}</div>
+          </div>
+        </details>
 
-            {/* リサイズ中プレビュー */}
-            {hoverRange && dragging && (
-              <div
-                className="absolute left-12 right-3 rounded-lg border-2 border-dashed border-teal-700 bg-teal-300/40 pointer-events-none"
-                style={{ 
-                  top: minuteToY(hoverRange.start), 
-                  height: minuteToY(hoverRange.end) - minuteToY(hoverRange.start),
-                  transition: 'all 100ms ease-out'
+        {/* === 複数人の空き === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("group.title", { n: groupTotal })}</summary>
+          <div className="mt-2 space-y-2 text-xs text-gray-600">
+            <div>{t("group.hint")}</div>
+            <div>
+              <div className="mb-0.5">{t("group.uids")}</div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {knownUids.map((u) => (
+                  <label key={u} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={group.members.some((m) => m.uid === u)}
+                      onChange={() => toggleGroupUid(u)}
+                    />
+                    <span className="font-mono">{u}</span>
+                    {u === uid && <span className="text-gray-400">{t("group.thisUid")}</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {group.members.some((m) => !m.uid) && (
+              <div className="space-y-1">
+                {group.members
+                  .filter((m) => !m.uid)
+                  .map((m) => (
+                    <div key={m.id} className="flex items-center gap-2">
+                      <span className="flex-1 min-w-0 truncate">{m.name}</span>
+                      <span className="text-gray-400">{t("group.slots", { n: m.slots?.length ?? 0 })}</span>
+                      <button
+                        className="text-red-600 hover:underline"
+                        onClick={() => updateGroup({ members: group.members.filter((x) => x.id !== m.id) })}
+                      >
+                        {t("common.delete")}
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <label className="px-2 py-1 rounded border bg-white hover:bg-gray-50 cursor-pointer">
+                {t("group.importFile")}
+                <input
+                  type="file"
+                  accept=".json,.ics,application/json,text/calendar"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    importGroupFiles(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              <button
+                className="px-2 py-1 rounded border bg-white hover:bg-gray-50 disabled:opacity-40"
+                disabled={selectedSlotsSorted.length === 0}
+                onClick={exportMySlots}
+              >
+                {t("group.exportMine")}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                {t("group.minLength")}
+                <select
+                  className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                  value={group.minLength}
+                  onChange={(e) => updateGroup({ minLength: Number(e.target.value) })}
+                >
+                  {MEETING_DURATIONS.map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+                </select>
+              </label>
+              <label className="flex items-end gap-1 pb-1">
+                <input type="checkbox" checked={group.show} onChange={(e) => updateGroup({ show: e.target.checked })} />
+                {t("group.show")}
+              </label>
+            </div>
+            {groupTotal > 0 && (
+              <div className="space-y-1">
+                <div>{t("group.common", { n: groupCommon.length })}</div>
+                {groupCommon.length > 0 && (
+                  <ul className="max-h-32 overflow-auto text-gray-800">
+                    {groupCommon.map((r) => (
+                      <li key={`${r.dateISO}-${r.start}`}>
+                        {dateLabel(r.dateISO, "fmt.mdw")} {rangeLabel(r.start, r.end)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button
+                className="px-3 py-1.5 rounded bg-teal-600 text-white hover:bg-teal-700 text-sm disabled:opacity-40"
+                disabled={groupCommon.length === 0}
+                onClick={addGroupCommon}
+              >
+                {t("group.add", { n: groupCommon.length })}
+              </button>
+            </div>
+          </div>
+        </details>
+
+        {/* === 連絡先 === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("contacts.title", { n: contacts.length })}</summary>
+          <div className="mt-2 space-y-2 text-xs text-gray-600">
+            <div className="flex gap-1">
+              <button
+                className="px-2 py-1 rounded border bg-white hover:bg-gray-50"
+                onClick={() => {
+                  const c = newContact({ name: t("contacts.newName") });
+                  setContacts((prev) => [...prev, c]);
+                  setActiveContactId(c.id);
                 }}
               >
-                <div className="absolute left-2 top-1 text-xs font-semibold bg-white/90 px-1 rounded">
-                  {mm(hoverRange.start)}〜{mm(hoverRange.end)}
+                {t("common.add")}
+              </button>
+              <span className="flex-1" />
+              <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={exportContactsCsv}>
+                {t("contacts.exportCsv")}
+              </button>
+              <label className="px-2 py-1 rounded border bg-white hover:bg-gray-50 cursor-pointer">
+                {t("contacts.importCsv")}
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    importContactsCsv(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            {activeContact ? (
+              <div className="space-y-1 border rounded p-2">
+                <div className="grid grid-cols-3 gap-1">
+                  <input
+                    className="col-span-2 px-2 py-1 rounded border text-sm"
+                    placeholder={t("contacts.name")}
+                    value={activeContact.name}
+                    onChange={(e) => updateContact(activeContact.id, { name: e.target.value })}
+                  />
+                  <input
+                    className="px-2 py-1 rounded border text-sm"
+                    placeholder={t("contacts.honorific")}
+                    value={activeContact.honorific}
+                    onChange={(e) => updateContact(activeContact.id, { honorific: e.target.value })}
+                  />
+                </div>
+                <input
+                  className="w-full px-2 py-1 rounded border text-sm"
+                  placeholder={t("contacts.company")}
+                  value={activeContact.company}
+                  onChange={(e) => updateContact(activeContact.id, { company: e.target.value })}
+                />
+                <div className="grid grid-cols-2 gap-1">
+                  <select
+                    className="px-1 py-1 rounded border text-sm"
+                    value={activeContact.tplId ?? ""}
+                    onChange={(e) => updateContact(activeContact.id, { tplId: e.target.value || undefined })}
+                  >
+                    <option value="">{t("contacts.noTemplate")}</option>
+                    {templates.map((tpl) => <option key={tpl.id} value={tpl.id}>{tpl.name || t("common.untitled")}</option>)}
+                  </select>
+                  <select
+                    className="px-1 py-1 rounded border text-sm"
+                    value={activeContact.timeZone ?? ""}
+                    onChange={(e) => updateContact(activeContact.id, { timeZone: e.target.value || undefined })}
+                  >
+                    <option value="">{t("contacts.noTimeZone")}</option>
+                    {tzOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+                  </select>
+                </div>
+                <textarea
+                  className="w-full h-16 px-2 py-1 rounded border text-sm"
+                  placeholder={t("contacts.notes")}
+                  value={activeContact.notes}
+                  onChange={(e) => updateContact(activeContact.id, { notes: e.target.value })}
+                />
+                <div className="flex justify-between">
+                  <button className="text-teal-700 hover:underline" onClick={() => selectContact(activeContact.id)}>
+                    {t("contacts.apply")}
+                  </button>
+                  <button className="text-red-600 hover:underline" onClick={() => deleteContact(activeContact.id)}>
+                    {t("common.delete")}
+                  </button>
+                </div>
+                <div className="pt-1 border-t">
+                  <div className="font-medium mb-1">{t("contacts.history", { n: activeContact.history.length })}</div>
+                  {activeContact.history.length === 0 && <div className="text-gray-400">{t("contacts.historyEmpty")}</div>}
+                  {activeContact.history.map((h) => (
+                    <details key={h.at} className="mb-1">
+                      <summary className="cursor-pointer">
+                        {t("contacts.historyItem", { at: new Date(h.at).toLocaleString(uiLocale), tpl: h.tplName || t("common.untitled"), n: h.slots.length })}
+                      </summary>
+                      <pre className="mt-1 p-1 bg-gray-50 rounded border whitespace-pre-wrap text-[11px]">{h.text}</pre>
+                    </details>
+                  ))}
                 </div>
               </div>
+            ) : (
+              <div className="text-gray-400">{t("contacts.hint")}</div>
             )}
+          </div>
+        </details>
 
-            <div style={{ height: TRACK_HEIGHT }} />
+        {/* === 祝日・休業日 === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("daysOff.title")}</summary>
+          <div className="mt-2 space-y-2 text-xs text-gray-600">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={skipDaysOff} onChange={(e) => setSkipDaysOff(e.target.checked)} />
+              {t("daysOff.skip")}
+            </label>
+            {closures.map((c) => (
+              <div key={c.id} className="flex flex-wrap items-center gap-1">
+                <input
+                  className="w-24 px-1 py-0.5 rounded border"
+                  placeholder={t("daysOff.namePlaceholder")}
+                  value={c.name}
+                  onChange={(e) => setClosures((prev) => prev.map((x) => (x.id === c.id ? { ...x, name: e.target.value } : x)))}
+                />
+                <input
+                  type="date"
+                  className="px-1 py-0.5 rounded border"
+                  value={c.start}
+                  onChange={(e) => setClosures((prev) => prev.map((x) => (x.id === c.id ? { ...x, start: e.target.value } : x)))}
+                />
+                〜
+                <input
+                  type="date"
+                  className="px-1 py-0.5 rounded border"
+                  value={c.end}
+                  onChange={(e) => setClosures((prev) => prev.map((x) => (x.id === c.id ? { ...x, end: e.target.value } : x)))}
+                />
+                <label className="flex items-center gap-0.5">
+                  <input
+                    type="checkbox"
+                    checked={c.yearly}
+                    onChange={(e) => setClosures((prev) => prev.map((x) => (x.id === c.id ? { ...x, yearly: e.target.checked } : x)))}
+                  />
+                  {t("daysOff.yearly")}
+                </label>
+                <button
+                  className="text-red-600 hover:underline"
+                  onClick={() => setClosures((prev) => prev.filter((x) => x.id !== c.id))}
+                >
+                  {t("common.delete")}
+                </button>
+              </div>
+            ))}
+            <button
+              className="text-teal-700 hover:underline"
+              onClick={() =>
+                setClosures((prev) => [
+                  ...prev,
+                  { id: crypto.randomUUID(), name: t("daysOff.defaultName"), start: activeDateISO, end: activeDateISO, yearly: false },
+                ])
+              }
+            >
+              {t("daysOff.add")}
+            </button>
           </div>
+        </details>
+
+        {/* === 予定の取り込み（.ics） === */}
+        <div className="bg-white rounded-xl shadow p-3 mb-4">
+          <div className="text-sm font-medium mb-2">{t("ics.title")}</div>
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            multiple
+            className="block w-full text-xs mb-2"
+            onChange={(e) => {
+              importIcsFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          {busyCals.length > 0 && (
+            <div className="space-y-1 mb-2">
+              {busyCals.map((c) => (
+                <div key={c.id} className="flex items-center gap-2 text-xs">
+                  <label className="flex items-center gap-1 flex-1 min-w-0">
+                    <input type="checkbox" checked={c.enabled} onChange={() => toggleBusyCal(c.id)} />
+                    <span className="truncate">{c.name}</span>
+                    <span className="text-gray-400">{t("ics.events", { n: c.events.length })}</span>
+                  </label>
+                  <button className="text-red-600 hover:underline" onClick={() => removeBusyCal(c.id)}>
+                    {t("common.delete")}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            {t("ics.conflict")}
+            <select
+              className="border rounded px-1 py-0.5"
+              value={conflictMode}
+              onChange={(e) => setConflictMode(e.target.value as "warn" | "block")}
+            >
+              <option value="warn">{t("ics.warn")}</option>
+              <option value="block">{t("ics.block")}</option>
+            </select>
+          </label>
         </div>
 
         {/* === 候補一覧（テキスト） === */}
         <div className="bg-white rounded-xl shadow p-3 mb-4">
-          <div className="text-sm font-medium mb-2">候補一覧（テキスト）</div>
+          <div className="text-sm font-medium mb-2">{t("list.title")}</div>
+          <div className="grid grid-cols-2 gap-2 mb-2 text-xs text-gray-600">
+            <label className="block">
+              {t("list.duration")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={meetingDuration}
+                onChange={(e) => setMeetingDuration(Number(e.target.value))}
+              >
+                <option value={0}>{t("list.wholeSlot")}</option>
+                {MEETING_DURATIONS.map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              {t("list.windowStyle")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={windowStyle}
+                onChange={(e) => setWindowStyle(e.target.value as WindowStyle)}
+              >
+                <option value="within">{t("list.within")}</option>
+                <option value="starts">{t("list.starts")}</option>
+              </select>
+            </label>
+          </div>
+          {(() => {
+            const offDays = [...new Set(selectedSlotsSorted.map((s) => s.dateISO))]
+              .map((iso) => ({ iso, name: dayOffName(iso, closures) }))
+              .filter((x) => x.name);
+            if (offDays.length === 0) return null;
+            return (
+              <div className="mb-2 px-2 py-1 rounded border border-red-200 bg-red-50 text-xs text-red-700">
+                {t("daysOff.warning", { list: offDays.map((x) => `${dateLabel(x.iso, "fmt.short")} ${x.name}`).join(t("fmt.listSep")) })}
+              </div>
+            );
+          })()}
           <pre className="text-sm p-2 bg-gray-50 rounded border overflow-auto whitespace-pre-wrap">
 {(() => {
   const txt = candidateListText;
@@ -619,79 +2815,665 @@ export default function App() {
 
         {/* === 候補一覧（削除ボタン付き） === */}
         <div className="bg-white rounded-xl shadow p-3 mb-4">
-          <div className="text-sm font-medium mb-2">候補の編集</div>
+          <div className="text-sm font-medium mb-2">{t("list.edit")}</div>
           {renderGroupedListWithRemove()}
         </div>
 
-        {/* === テンプレ（3枠・保存） === */}
+        {/* === 共有リンク（相手に選んでもらう） === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("share.title")}</summary>
+          <div className="mt-2 space-y-2 text-sm">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <span className="shrink-0">{t("share.myName")}</span>
+              <input
+                className="flex-1 min-w-0 px-2 py-1 rounded border text-sm"
+                placeholder={t("share.myNamePlaceholder")}
+                value={myName}
+                onChange={(e) => setMyName(e.target.value)}
+              />
+            </label>
+            <div className="flex gap-2 items-center">
+              <input className="flex-1 min-w-0 px-2 py-1 rounded border font-mono text-xs bg-gray-50" value={shareLink} readOnly />
+              <button
+                className="px-3 py-1 rounded bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-40"
+                disabled={slots.length === 0}
+                onClick={copyShareLink}
+              >
+                {copied === "link" ? t("common.copied") : t("common.copy")}
+              </button>
+            </div>
+            <div className="text-xs text-gray-600">
+              {t("share.hint")}
+            </div>
+            <textarea
+              className="w-full h-20 px-2 py-1 rounded border text-xs"
+              placeholder={t("share.replyPlaceholder")}
+              value={replyInput}
+              onChange={(e) => setReplyInput(e.target.value)}
+            />
+            {replyInput.trim() && !parseReplyCode(replyInput) && (
+              <div className="space-y-1">
+                <div className="text-xs text-gray-600">
+                  {replyMatches.length ? t("reply.matches") : t("reply.noMatch")}
+                </div>
+                {replyMatches.map((m) => (
+                  <div key={`${m.slot.id}-${m.start}-${m.end}`} className="flex items-center gap-2 px-2 py-1 rounded border bg-teal-50/50">
+                    <span className="flex-1 text-sm">
+                      {dateLabel(m.slot.dateISO, "fmt.mdw")} {rangeLabel(m.start, m.end)}
+                      {(m.start !== m.slot.start || m.end !== m.slot.end) && (
+                        <span className="ml-1 text-[11px] text-gray-500">
+                          {t("reply.within", { range: rangeLabel(m.slot.start, m.slot.end) })}
+                        </span>
+                      )}
+                    </span>
+                    <button
+                      className="px-2 py-1 rounded bg-teal-600 text-white hover:bg-teal-700 text-xs"
+                      onClick={() => confirmSlot(m)}
+                    >
+                      {t("reply.confirm")}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button
+                className="px-3 py-1 rounded border bg-white hover:bg-gray-50 disabled:opacity-40"
+                disabled={!parseReplyCode(replyInput)}
+                onClick={applyReply}
+              >
+                {t("share.applyReply")}
+              </button>
+            </div>
+          </div>
+        </details>
+
+        {/* === テンプレ（ライブラリ・保存） === */}
         <div className="bg-white rounded-xl shadow p-3 mb-4">
           <div className="flex gap-2 mb-2 items-center">
+            <select
+              className="flex-1 min-w-0 px-2 py-2 rounded border text-sm"
+              value={activeContact ? activeContactId : ""}
+              onChange={(e) => selectContact(e.target.value)}
+            >
+              <option value="">{t("to.pickContact")}</option>
+              {contacts.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.company ? `${c.company} ` : ""}{c.name}{c.honorific}
+                </option>
+              ))}
+            </select>
+            <button
+              className="px-3 py-2 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-40"
+              disabled={!toName.trim()}
+              onClick={addContactFromFields}
+              title={t("to.registerTitle")}
+            >
+              {t("to.register")}
+            </button>
+          </div>
+          <div className="flex gap-2 mb-2 items-center">
+            <input
+              className="w-28 min-w-0 px-2 py-2 rounded border text-sm"
+              placeholder={t("to.company")}
+              value={toCompany}
+              onChange={(e) => setToCompany(e.target.value)}
+            />
             <input
-              className="flex-1 px-3 py-2 rounded border"
-              placeholder="宛先名（例：○○様）"
+              className="flex-1 min-w-0 px-3 py-2 rounded border"
+              placeholder={t("to.name")}
               value={toName}
               onChange={(e) => setToName(e.target.value)}
             />
+            <input
+              className="w-12 px-1 py-2 rounded border text-sm"
+              placeholder={t("to.honorific")}
+              value={toHonorific}
+              onChange={(e) => setToHonorific(e.target.value)}
+            />
             <button
               className="px-3 py-2 rounded bg-gray-100 border hover:bg-gray-200"
-              onClick={() => { setToName(""); setTemplates(defaultTemplates); setActiveTplId("tpl-1"); }}
-              title="全テンプレを初期化"
+              onClick={resetAll}
+              title={t("to.resetTitle")}
             >
-              初期化
+              {t("to.reset")}
             </button>
           </div>
+          <div className="grid grid-cols-2 gap-2 mb-3 text-xs text-gray-600">
+            <label className="block">
+              {t("to.myTz")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={myTz}
+                onChange={(e) => setMyTz(e.target.value)}
+              >
+                {tzOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              {t("to.recipientTz")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={recipientTz}
+                onChange={(e) => setRecipientTz(e.target.value)}
+              >
+                <option value="">{t("to.noRecipientTz")}</option>
+                {tzOptions.map((z) => <option key={z} value={z}>{z}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              {t("output.locale")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={outputLocale}
+                onChange={(e) => setOutputLocale(e.target.value as Locale)}
+              >
+                {LOCALES.map((l) => <option key={l.id} value={l.id}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              {t("output.timeFormat")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={timeFormat}
+                onChange={(e) => setTimeFormat(e.target.value as TimeFormat)}
+              >
+                <option value="auto">{t("output.timeAuto")}</option>
+                <option value="24h">{t("output.time24")}</option>
+                <option value="12h">{t("output.time12")}</option>
+              </select>
+            </label>
+          </div>
+
+          {/* テンプレ操作（追加・複製・削除・並べ替え・入出力） */}
+          <div className="flex flex-wrap gap-1 mb-2 text-xs">
+            <select
+              className="px-1 py-1 rounded border"
+              value={tplCategory}
+              onChange={(e) => setTplCategory(e.target.value)}
+              title={t("tpl.filter")}
+            >
+              <option value="">{t("tpl.all")}</option>
+              {tplCategories.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={addTemplate}>{t("common.add")}</button>
+            <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={() => duplicateTemplate(activeTplId)}>{t("tpl.duplicate")}</button>
+            <button
+              className="px-2 py-1 rounded border bg-white hover:bg-gray-50"
+              onClick={() => setTemplates(prev => moveTpl(prev, activeTplId, -1))}
+              title={t("tpl.moveLeft")}
+            >
+              ←
+            </button>
+            <button
+              className="px-2 py-1 rounded border bg-white hover:bg-gray-50"
+              onClick={() => setTemplates(prev => moveTpl(prev, activeTplId, 1))}
+              title={t("tpl.moveRight")}
+            >
+              →
+            </button>
+            <button
+              className="px-2 py-1 rounded border bg-white hover:bg-red-50 text-red-600 disabled:opacity-40"
+              disabled={templates.length <= 1}
+              onClick={() => deleteTemplate(activeTplId)}
+            >
+              {t("common.delete")}
+            </button>
+            <button
+              className="px-2 py-1 rounded border bg-white hover:bg-gray-50"
+              onClick={addDefaultTemplates}
+              title={t("tpl.addDefaultsTitle")}
+            >
+              {t("tpl.addDefaults")}
+            </button>
+            <span className="flex-1" />
+            <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={exportTemplates}>{t("tpl.export")}</button>
+            <label className="px-2 py-1 rounded border bg-white hover:bg-gray-50 cursor-pointer">
+              {t("tpl.import")}
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  importTemplates(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
 
           {/* テンプレタブ */}
-          <div className="flex gap-2 mb-3">
-            {templates.map((t) => (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {visibleTemplates.map((tpl) => (
               <button
-                key={t.id}
-                className={`px-3 py-1 rounded border text-sm ${activeTplId === t.id ? "bg-teal-600 text-white border-teal-700" : "bg-white border-gray-300 hover:bg-gray-50"}`}
-                onClick={() => setActiveTplId(t.id)}
+                key={tpl.id}
+                className={`px-3 py-1 rounded border text-sm ${activeTplId === tpl.id ? "bg-teal-600 text-white border-teal-700" : "bg-white border-gray-300 hover:bg-gray-50"}`}
+                onClick={() => setActiveTplId(tpl.id)}
               >
-                {t.name || (t.id === "tpl-1" ? "はじめまして用" : t.id === "tpl-2" ? "対面商談用" : "オンライン用")}
+                {tpl.name || defaultTemplates(uiLocale).find((d) => d.id === tpl.id)?.name || t("common.untitled")}
               </button>
             ))}
           </div>
 
           {/* テンプレ名編集 */}
-          <label className="block text-xs text-gray-600 mb-1">テンプレ名（タブ表示用）</label>
+          <label className="block text-xs text-gray-600 mb-1">{t("tpl.name")}</label>
           <input
             className="w-full px-3 py-2 rounded border mb-2"
             value={activeTpl?.name || ""}
             onChange={(e) => renameTemplate(activeTplId, e.target.value)}
           />
+          <label className="block text-xs text-gray-600 mb-1">{t("tpl.category")}</label>
+          <input
+            className="w-full px-3 py-2 rounded border mb-2 text-sm"
+            list="tpl-categories"
+            placeholder={t("tpl.categoryPlaceholder")}
+            value={activeTpl?.category ?? ""}
+            onChange={(e) => setTemplateCategory(activeTplId, e.target.value)}
+          />
+          <datalist id="tpl-categories">
+            {tplCategories.map((c) => <option key={c} value={c} />)}
+          </datalist>
+
+          {/* 件名（本文と同じく差し込み可） */}
+          <label className="block text-xs text-gray-600 mb-1">{t("tpl.subject")}</label>
+          <input
+            className={`w-full px-3 py-2 rounded border mb-2 text-sm ${rendered.subjectErrors.length ? "border-red-400" : ""}`}
+            placeholder={t("tpl.subjectPlaceholder")}
+            value={activeTpl?.subject ?? ""}
+            onChange={(e) => editTemplate(activeTplId, () => ({ subject: e.target.value }))}
+          />
+          {rendered.subjectErrors.length > 0 && (
+            <ul className="-mt-1 mb-2 space-y-0.5 text-xs text-red-600">
+              {rendered.subjectErrors.map((err, i) => (
+                <li key={i}>{t("tpl.subjectError", { message: t(`tpl.error.${err.code}`, err.params) })}</li>
+              ))}
+            </ul>
+          )}
+
+          {/* 差し込み変数（テンプレごと） */}
+          <div className="mb-2">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-600">{t("tpl.vars")}</span>
+              <button
+                className="text-xs text-teal-700 hover:underline"
+                onClick={() => updateTemplateVars(activeTplId, (vars) => [...vars, { name: "", value: "" }])}
+              >
+                {t("tpl.addVar")}
+              </button>
+            </div>
+            {(activeTpl?.vars ?? []).map((v, i) => {
+              const dup = (activeTpl?.vars ?? []).some((o, j) => j < i && o.name === v.name);
+              const invalid = v.name !== "" && (!isValidVarName(v.name) || dup);
+              return (
+                <div key={i} className="flex gap-1 mb-1 items-center">
+                  <input
+                    className={`w-28 px-2 py-1 rounded border text-sm ${invalid ? "border-red-400" : ""}`}
+                    placeholder={t("tpl.varName")}
+                    value={v.name}
+                    onChange={(e) =>
+                      updateTemplateVars(activeTplId, (vars) => vars.map((o, j) => (j === i ? { ...o, name: e.target.value } : o)))
+                    }
+                  />
+                  <input
+                    className="flex-1 min-w-0 px-2 py-1 rounded border text-sm"
+                    placeholder={t("tpl.varValue")}
+                    value={v.value}
+                    onChange={(e) =>
+                      updateTemplateVars(activeTplId, (vars) => vars.map((o, j) => (j === i ? { ...o, value: e.target.value } : o)))
+                    }
+                  />
+                  <button
+                    className="text-xs text-red-600 hover:underline"
+                    onClick={() => updateTemplateVars(activeTplId, (vars) => vars.filter((_, j) => j !== i))}
+                  >
+                    {t("common.delete")}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* 候補一覧の書式（テンプレごと） */}
+          <div className="grid grid-cols-2 gap-2 mb-2 text-xs text-gray-600">
+            <label className="block">
+              {t("tpl.datePattern")}
+              <input
+                className="mt-0.5 w-full px-2 py-1 rounded border text-sm"
+                value={listFormat.datePattern}
+                onChange={(e) => updateListFormat(activeTplId, { datePattern: e.target.value })}
+              />
+            </label>
+            <label className="block">
+              {t("tpl.bullet")}
+              <input
+                className="mt-0.5 w-full px-2 py-1 rounded border text-sm"
+                value={listFormat.bullet}
+                onChange={(e) => updateListFormat(activeTplId, { bullet: e.target.value })}
+              />
+            </label>
+            <label className="block">
+              {t("tpl.separator")}
+              <input
+                className="mt-0.5 w-full px-2 py-1 rounded border text-sm"
+                value={listFormat.separator}
+                onChange={(e) => updateListFormat(activeTplId, { separator: e.target.value })}
+              />
+            </label>
+            <label className="block">
+              {t("tpl.layout")}
+              <select
+                className="mt-0.5 w-full px-1 py-1 rounded border text-sm"
+                value={listFormat.layout}
+                onChange={(e) => updateListFormat(activeTplId, { layout: e.target.value as ListFormat["layout"] })}
+              >
+                <option value="byDay">{t("tpl.byDay")}</option>
+                <option value="perSlot">{t("tpl.perSlot")}</option>
+              </select>
+            </label>
+          </div>
+
+          {/* 前後の余白（テンプレごと：対面商談の移動時間など） */}
+          <div className="flex items-center gap-2 mb-2 text-xs text-gray-600">
+            <span className="flex-1 min-w-0">{t("tpl.buffer")}</span>
+            {(["before", "after"] as const).map((k) => (
+              <label key={k} className="flex items-center gap-1">
+                {t(k === "before" ? "tpl.bufferBefore" : "tpl.bufferAfter")}
+                <select
+                  className="px-1 py-1 rounded border text-sm"
+                  value={activeBuffer[k]}
+                  onChange={(e) => updateBuffer(activeTplId, { [k]: Number(e.target.value) })}
+                >
+                  {BUFFER_OPTIONS.map((m) => <option key={m} value={m}>{t("common.minutes", { n: m })}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
 
           {/* 本文 - サイズを1.3倍に */}
           <label className="block text-sm font-medium mb-1">
-            テンプレ本文（{"{{宛先名}}"} / {"{{候補一覧}}"} を差し込み）
+            {t("tpl.body")}
           </label>
           <textarea
-            className="w-full h-48 px-3 py-2 rounded border font-mono text-sm"
+            className={`w-full h-48 px-3 py-2 rounded border font-mono text-sm ${rendered.errors.length ? "border-red-400" : ""}`}
             value={activeTpl?.content ?? ""}
             onChange={(e) => updateTemplateContent(activeTplId, e.target.value)}
           />
+          {rendered.errors.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-xs text-red-600">
+              {rendered.errors.map((err, i) => (
+                <li key={i}>{t("tpl.errorLine", { line: err.line, message: t(`tpl.error.${err.code}`, err.params) })}</li>
+              ))}
+            </ul>
+          )}
           <div className="flex justify-between mt-2">
             <button
               className="px-3 py-1 rounded border bg-gray-50 hover:bg-gray-100 text-sm"
               onClick={() => resetTemplate(activeTplId)}
             >
-              このテンプレを空にする
+              {t("tpl.clear")}
             </button>
           </div>
 
+          {/* 版の履歴 */}
+          {(activeTpl?.history?.length ?? 0) > 0 && (
+            <details className="mt-2 text-xs">
+              <summary className="cursor-pointer text-gray-600">{t("tpl.history", { n: activeTpl!.history!.length })}</summary>
+              <ul className="mt-1 space-y-1">
+                {activeTpl!.history!.map((rev) => (
+                  <li key={rev.at} className="flex items-center gap-2">
+                    <span className="text-gray-500 whitespace-nowrap">{new Date(rev.at).toLocaleString(uiLocale)}</span>
+                    <span className="flex-1 truncate">{rev.name}{uiLocale === "ja" ? "：" : ": "}{rev.content.split("\n")[0] || t("tpl.emptyRevision")}</span>
+                    <button className="text-teal-700 hover:underline" onClick={() => restoreTemplate(activeTplId, rev)}>
+                      {t("tpl.restore")}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
           {/* 出力 - サイズを1.3倍に */}
           <div className="mt-4">
-            <label className="block text-sm font-medium mb-1">出力</label>
-            <textarea className="w-full h-52 px-3 py-2 rounded border font-mono text-sm" value={outputText} readOnly />
-            <div className="mt-2 flex justify-end">
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm font-medium">{t("output.title")}</label>
+              <select
+                className="px-1 py-1 rounded border text-xs"
+                value={outputFormat}
+                onChange={(e) => setOutputFormat(e.target.value as typeof outputFormat)}
+                aria-label={t("output.format")}
+                title={t("output.format")}
+              >
+                <option value="text">{t("output.formatText")}</option>
+                <option value="html">{t("output.formatHtml")}</option>
+                <option value="markdown">{t("output.formatMarkdown")}</option>
+                <option value="slack">{t("output.formatSlack")}</option>
+              </select>
+            </div>
+            {rendered.subject && (
+              <div className="mb-1 px-3 py-1.5 rounded border bg-gray-50 text-sm truncate" title={rendered.subject}>
+                <span className="text-xs text-gray-500 mr-2">{t("tpl.subject")}</span>
+                {rendered.subject}
+              </div>
+            )}
+            {outputFormat === "html" ? (
+              <div
+                className="w-full h-52 px-3 py-2 rounded border text-sm overflow-auto [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5"
+                dangerouslySetInnerHTML={{ __html: richText }}
+              />
+            ) : (
+              <textarea
+                className="w-full h-52 px-3 py-2 rounded border font-mono text-sm"
+                value={outputFormat === "text" ? outputText : richText}
+                readOnly
+              />
+            )}
+            <div className="mt-2 flex justify-end gap-2">
+              <button
+                onClick={exportHoldsIcs}
+                disabled={selectedSlotsSorted.length === 0 && Object.keys(draftExports).length === 0}
+                className="px-3 py-2 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-40"
+                title={t("output.holdsTitle")}
+              >
+                {t("output.holds")}
+              </button>
+              {canShare && (
+                <button
+                  onClick={shareOutput}
+                  disabled={!outputText}
+                  className="px-3 py-2 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-40"
+                  title={t("output.shareTitle")}
+                >
+                  {t("output.share")}
+                </button>
+              )}
+              <a
+                href={mailto}
+                onClick={recordProposal}
+                className="px-3 py-2 rounded border bg-white hover:bg-gray-50 text-sm"
+                title={t("output.mailTitle")}
+              >
+                {t("output.mail")}
+              </a>
               <button onClick={copy} className="px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700">
-                コピー
+                {copied === "output" ? t("common.copied") : t("common.copy")}
               </button>
             </div>
           </div>
         </div>
 
+        {/* === バックアップ・復元 === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("backup.title")}</summary>
+          <div className="mt-2 space-y-2 text-sm">
+            <div className="text-xs text-gray-600">
+              {t("backup.hint")}
+            </div>
+            <div className="flex gap-2 text-xs">
+              <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={exportBackup}>
+                {t("backup.export")}
+              </button>
+              <label className="px-2 py-1 rounded border bg-white hover:bg-gray-50 cursor-pointer">
+                {t("backup.import")}
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    importBackup(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            {restore && (
+              <div className="border rounded p-2 space-y-2">
+                <div className="text-xs text-gray-600">
+                  {restore.exportedAt && t("backup.exportedAt", { at: new Date(restore.exportedAt).toLocaleString(uiLocale) })}
+                  {t("backup.summary", {
+                    added: restore.diff.filter((r) => r.kind === "added").length,
+                    changed: restore.diff.filter((r) => r.kind === "changed").length,
+                    removed: restore.diff.filter((r) => r.kind === "removed").length,
+                    same: restore.diff.filter((r) => r.kind === "same").length,
+                  })}
+                </div>
+                <div className="max-h-48 overflow-y-auto text-xs">
+                  {restore.diff
+                    .filter((r) => r.kind !== "same")
+                    .map((r) => (
+                      <div key={r.key} className="flex gap-2 py-0.5 border-b last:border-b-0">
+                        <span
+                          className={`shrink-0 w-10 ${
+                            r.kind === "added" ? "text-teal-700" : r.kind === "removed" ? "text-red-600" : "text-amber-700"
+                          }`}
+                        >
+                          {r.kind === "same" ? "" : t(`backup.${r.kind}`)}
+                        </span>
+                        <span className="font-mono text-gray-500 truncate">{r.uid}</span>
+                        <span className="font-mono">{r.name}</span>
+                        <span className="flex-1 text-right text-gray-600">
+                          {[r.before, r.after].flatMap((v) => (v ? [diffValueText(v)] : [])).join(" → ")}
+                        </span>
+                      </div>
+                    ))}
+                  {restore.diff.every((r) => r.kind === "same") && <div className="text-gray-400">{t("backup.noDiff")}</div>}
+                </div>
+                <div className="flex gap-2 justify-end text-xs">
+                  <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={() => setRestore(null)}>
+                    {t("backup.cancel")}
+                  </button>
+                  <button className="px-2 py-1 rounded border bg-white hover:bg-gray-50" onClick={() => applyRestore("merge")}>
+                    {t("backup.merge")}
+                  </button>
+                  <button className="px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700" onClick={() => applyRestore("replace")}>
+                    {t("backup.replace")}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </details>
+
+        {/* === 端末間の同期 === */}
+        <details className="bg-white rounded-xl shadow p-3 mb-4">
+          <summary className="text-sm font-medium cursor-pointer">{t("sync.title")}</summary>
+          <div className="mt-2 space-y-2 text-sm">
+            <div className="text-xs text-gray-600">{t("sync.hint")}</div>
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+              <label className="block">
+                {t("sync.url")}
+                <input
+                  className="mt-0.5 w-full px-2 py-1 rounded border text-sm font-mono"
+                  placeholder="http://localhost:8787"
+                  value={syncSettings.url}
+                  onChange={(e) => setSyncSettings((s) => ({ ...s, url: e.target.value }))}
+                />
+              </label>
+              <label className="block">
+                {t("sync.token")}
+                <input
+                  type="password"
+                  className="mt-0.5 w-full px-2 py-1 rounded border text-sm font-mono"
+                  value={syncSettings.token}
+                  onChange={(e) => setSyncSettings((s) => ({ ...s, token: e.target.value }))}
+                />
+              </label>
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={syncSettings.enabled}
+                  onChange={(e) => setSyncSettings((s) => ({ ...s, enabled: e.target.checked }))}
+                />
+                {t("sync.enabled")}
+              </label>
+              <span className="flex-1 text-right text-gray-600">
+                {syncStatus.busy
+                  ? t("sync.syncing")
+                  : syncStatus.at
+                    ? t("sync.lastAt", { at: new Date(syncStatus.at).toLocaleString(uiLocale) })
+                    : t("sync.never")}
+              </span>
+              <button
+                className="px-2 py-1 rounded border bg-white hover:bg-gray-50 disabled:opacity-40"
+                disabled={!syncSettings.url.trim() || syncStatus.busy}
+                onClick={runSync}
+              >
+                {t("sync.now")}
+              </button>
+            </div>
+            {syncStatus.error && (
+              <div role="alert" className="px-2 py-1 rounded border border-red-200 bg-red-50 text-xs text-red-700">
+                {t("sync.error", { message: syncStatus.error })}
+              </div>
+            )}
+          </div>
+        </details>
+
+        {copyPreview && (
+          <div
+            role="dialog"
+            aria-label={t("copy.previewTitle")}
+            className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[min(28rem,calc(100%-2rem))] bg-white rounded-xl shadow-lg border p-3"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-600">{t("copy.previewTitle")}</span>
+              <button className="text-xs text-gray-600 hover:underline" onClick={() => setCopyPreview(null)}>
+                {t("copy.close")}
+              </button>
+            </div>
+            {copyPreview.html ? (
+              <div
+                className="max-h-48 overflow-auto px-2 py-1 rounded border text-sm select-all [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5"
+                dangerouslySetInnerHTML={{ __html: copyPreview.html }}
+              />
+            ) : (
+              <textarea
+                className="w-full h-32 px-2 py-1 rounded border font-mono text-xs"
+                value={copyPreview.text}
+                readOnly
+                autoFocus
+                onFocus={(e) => e.currentTarget.select()}
+              />
+            )}
+          </div>
+        )}
+
+        {toast && (
+          <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 rounded-lg bg-gray-800 text-white text-sm shadow-lg">
+            <span>{toast}</span>
+            <button
+              className="text-teal-300 font-medium hover:underline"
+              onClick={() => {
+                undo();
+                setToast(null);
+              }}
+            >
+              {t("common.undo")}
+            </button>
+          </div>
+        )}
+
         <p className="hidden text-xs text-gray-500">
           ※このツールはブラウザ保存です。同じURLでも <b>?uid=任意の文字</b> を付けると保存領域が分かれます（例：<span className="font-mono">?uid=a-san</span>）。
         </p>
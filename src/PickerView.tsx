@@ -0,0 +1,113 @@
+import { useMemo, useRef, useState } from "react";
+import { withinLabel } from "./compose";
+import { makeT } from "./i18n";
+import { browserLocale, formatTimeRange, timeStyle } from "./locale";
+import { NONE_CODE, replyCode, type SharePayload } from "./share";
+import { formatDate } from "./template";
+import { deviceTimeZone, wallTimeToEpoch, zoneAbbr, zonedRangeLabel } from "./tz";
+
+/** ====== 受け手用：候補から1つ選ぶ画面（読み取り専用・閲覧者のブラウザの言語で表示） ====== */
+export default function PickerView({ share }: { share: SharePayload }) {
+  const [picked, setPicked] = useState<number | "none" | null>(null);
+  const [copied, setCopied] = useState(false);
+  // 自動でコピーできなかったときは返信文を選択して手動コピーを促す
+  const [copyFailed, setCopyFailed] = useState(false);
+  const replyRef = useRef<HTMLTextAreaElement | null>(null);
+  const locale = useMemo(browserLocale, []);
+  const t = useMemo(() => makeT(locale), [locale]);
+  const style = timeStyle(locale);
+  const viewerTz = deviceTimeZone();
+  const otherZone = viewerTz !== share.tz;
+  const sender = share.name || t("picker.defaultSender");
+
+  // 送り手のゾーンでの表記＋閲覧者のゾーンが違えば併記（会議が枠より短ければ「〜の間で1時間」）
+  const label = (s: SharePayload["slots"][number]) => {
+    const date = formatDate(s.dateISO, t("fmt.mdw"), locale);
+    let time = formatTimeRange(s.start, s.end, style);
+    if (otherZone) {
+      const [y, m, d] = s.dateISO.split("-").map(Number);
+      const startMs = wallTimeToEpoch(share.tz, y, m, d, 0, s.start);
+      const endMs = wallTimeToEpoch(share.tz, y, m, d, 0, s.end);
+      const viewer = zonedRangeLabel(viewerTz, startMs, endMs, s.dateISO, style);
+      time = `${time} ${zoneAbbr(share.tz, startMs)}${locale === "ja" ? `（${viewer}）` : ` (${viewer})`}`;
+    }
+    return `${date} ${s.duration ? withinLabel(time, s.duration, locale) : time}`;
+  };
+
+  const replyText =
+    picked === null
+      ? ""
+      : picked === "none"
+        ? t("picker.replyNone", { sender, code: NONE_CODE })
+        : t("picker.replyPick", { sender, slot: label(share.slots[picked]), code: replyCode(share.slots[picked]) });
+
+  const copyReply = async () => {
+    try {
+      await navigator.clipboard.writeText(replyText);
+      setCopied(true);
+      setCopyFailed(false);
+    } catch {
+      setCopyFailed(true);
+      replyRef.current?.select();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="mx-auto max-w-md p-4">
+        <h1 className="text-xl font-bold mb-1">{t("picker.title")}</h1>
+        <p className="text-sm text-gray-600 mb-4">{t("picker.lead", { sender })}</p>
+
+        <div className="bg-white rounded-xl shadow p-3 mb-4 space-y-2">
+          {share.slots.length === 0 && <div className="text-sm text-gray-400">{t("common.noCandidates")}</div>}
+          {share.slots.map((s, i) => (
+            <button
+              key={i}
+              className={`w-full text-left px-3 py-2 rounded-lg border text-sm ${
+                picked === i ? "bg-teal-600 text-white border-teal-700" : "bg-white border-gray-300 hover:bg-gray-50"
+              }`}
+              onClick={() => {
+                setPicked(i);
+                setCopied(false);
+                setCopyFailed(false);
+              }}
+            >
+              {label(s)}
+            </button>
+          ))}
+          <button
+            className={`w-full px-3 py-2 rounded-lg border text-sm ${
+              picked === "none" ? "bg-gray-700 text-white border-gray-800" : "bg-gray-50 border-gray-300 hover:bg-gray-100"
+            }`}
+            onClick={() => {
+              setPicked("none");
+              setCopied(false);
+              setCopyFailed(false);
+            }}
+          >
+            {t("picker.none")}
+          </button>
+        </div>
+
+        {picked !== null && (
+          <div className="bg-white rounded-xl shadow p-3 mb-4">
+            <label className="block text-sm font-medium mb-1">{t("picker.replyLabel")}</label>
+            <textarea
+              ref={replyRef}
+              className="w-full h-40 px-3 py-2 rounded border font-mono text-sm"
+              value={replyText}
+              readOnly
+            />
+            <div className="mt-2 flex justify-end items-center gap-2">
+              {copied && <span className="text-xs text-teal-700">{t("picker.copied")}</span>}
+              {copyFailed && <span className="text-xs text-amber-700">{t("common.copyFallback")}</span>}
+              <button onClick={copyReply} className="px-4 py-2 rounded bg-teal-600 text-white hover:bg-teal-700">
+                {t("picker.copy")}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
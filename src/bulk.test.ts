@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseBulkLines, previewBulkLines } from "./bulk";
+import { findSlotConflict, type HeldSlot } from "./drafts";
+import type { BusyRange } from "./ics";
+
+describe("まとめて入力", () => {
+  const today = "2025-09-22"; // 月曜
+  const read = (text: string, length?: number) =>
+    parseBulkLines(text, today, length).map((l) => l.error ?? l.slots.map((s) => [s.dateISO, s.start, s.end]));
+
+  it("日付＋時間帯・午前・来週の曜日・毎週の繰り返しを枠にする", () => {
+    expect(read("9/25 13-15\n\n9/26 午前\n来週火曜 10:00〜11:30")).toEqual([
+      [["2025-09-25", 780, 900]],
+      [["2025-09-26", 540, 720]],
+      [["2025-09-30", 600, 690]],
+    ]);
+    expect(read("毎週水曜 15時 3週分", 45)).toEqual([
+      [
+        ["2025-09-24", 900, 945],
+        ["2025-10-01", 900, 945],
+        ["2025-10-08", 900, 945],
+      ],
+    ]);
+  });
+
+  it("読めない行は理由を返す", () => {
+    expect(read("よろしく\n13時〜15時\n9/25\n2025/2/30 10時\n2025/9/1 10時\n9/25（金）10時")).toEqual([
+      "unknown",
+      "noDate",
+      "noTime",
+      "badDate",
+      "past",
+      "wrongWeekday",
+    ]);
+    expect(parseBulkLines("a\n\n9/25 10時", today).map((l) => l.line)).toEqual([1, 3]);
+  });
+});
+
+describe("まとめて入力の確認", () => {
+  const today = "2025-09-22";
+  const grid = { step: 15, minSlot: 30 };
+  const busy: Record<string, BusyRange[]> = { "2025-09-25": [{ start: 900, end: 960, summary: "定例" }] };
+  const held: HeldSlot[] = [
+    { id: "h", dateISO: "2025-09-26", start: 600, end: 660, draftId: "d2", draftName: "B社", buffer: { before: 0, after: 0 } },
+  ];
+  const preview = (text: string, buffer = { before: 0, after: 0 }) =>
+    previewBulkLines(parseBulkLines(text, today, 60), grid, (x) => ({
+      conflict: findSlotConflict(x.dateISO, x, buffer, busy[x.dateISO], held)?.kind ?? null,
+    })).map((l) => l.items.map((x) => [x.dateISO, x.start, x.end, x.conflict]));
+
+  it("最小の長さに延ばしてから重なりを見る", () => {
+    expect(preview("9/25 13-15\n9/27 10:05-10:10")).toEqual([
+      [["2025-09-25", 780, 900, null]],
+      [["2025-09-27", 605, 635, null]],
+    ]);
+  });
+
+  it("前後の余白ごと予定・ほかの案件の押さえと重ねない", () => {
+    expect(preview("9/25 13-15\n9/26 11時", { before: 0, after: 30 })).toEqual([
+      [["2025-09-25", 780, 900, "busy"]],
+      [["2025-09-26", 660, 720, null]],
+    ]);
+    expect(preview("9/26 11時", { before: 15, after: 0 })).toEqual([[["2025-09-26", 660, 720, "held"]]]);
+  });
+});
@@ -0,0 +1,66 @@
+import { addDays, nextWeekday, normalizeJa, parseDateMentions, resolveDate, weekdayOf } from "./jaDate";
+import { normalizeRange, type SlotGrid } from "./slots";
+
+/** ====== まとめて入力：1行に「9/25 13-15」「9/26 午前」「来週火曜 10:00〜11:30」「毎週水曜 15時 4週分」 ====== */
+export type BulkError = "unknown" | "noDate" | "badDate" | "past" | "wrongWeekday" | "noTime" | "badTime";
+
+export type BulkSlot = { dateISO: string; start: number; end: number };
+
+// line は 1 始まりの行番号。読めなかった行は error（slots は空）
+export type BulkLine = { line: number; text: string; slots: BulkSlot[]; error?: BulkError };
+
+// 「毎週」だけで回数がなければ4週分
+export const DEFAULT_REPEAT = 4;
+const MAX_REPEAT = 26;
+
+const COUNT = /(\d+)\s*(?:週分|週間|回)/;
+
+function parseLine(text: string, todayISO: string, length: number): Omit<BulkLine, "line" | "text"> {
+  const norm = normalizeJa(text);
+  const count = COUNT.exec(norm);
+  const weeks = count
+    ? Math.min(MAX_REPEAT, Math.max(1, Number(count[1])))
+    : norm.includes("毎週")
+      ? DEFAULT_REPEAT
+      : 1;
+  // 「4週分」の数字を日付・時刻として読まないように外す
+  const mentions = parseDateMentions(count ? norm.replace(count[0], " ") : norm, todayISO);
+  if (!mentions.length) return { slots: [], error: "unknown" };
+
+  const slots: BulkSlot[] = [];
+  for (const m of mentions) {
+    if (!m.date && m.weekday === undefined) return { slots: [], error: "noDate" };
+    const dateISO = m.date ? resolveDate(m.date, todayISO) : nextWeekday(m.weekday!, todayISO);
+    if (!dateISO) return { slots: [], error: "badDate" };
+    if (dateISO < todayISO) return { slots: [], error: "past" };
+    if (m.date && m.weekday !== undefined && weekdayOf(dateISO) !== m.weekday) return { slots: [], error: "wrongWeekday" };
+    if (!m.times.length) return { slots: [], error: "noTime" };
+    for (const spec of m.times) {
+      // 開始時刻だけなら会議の長さ分
+      const end = spec.end ?? spec.start + length;
+      if (end > 1440) return { slots: [], error: "badTime" };
+      for (let w = 0; w < weeks; w++) slots.push({ dateISO: addDays(dateISO, w * 7), start: spec.start, end });
+    }
+  }
+  return { slots };
+}
+
+/** 入力を行ごとに読む（空行は飛ばす）。length は開始時刻だけの行の長さ（分） */
+export const parseBulkLines = (text: string, todayISO: string, length = 60): BulkLine[] =>
+  text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: i + 1, text: line.trim() }))
+    .filter((l) => l.text)
+    .map((l) => ({ ...l, ...parseLine(l.text, todayISO, length) }));
+
+/** 追加前の確認：1枠ずつ刻み・最小の長さに丸め、check の結果（登録できるかなど）を付ける */
+export const previewBulkLines = <C extends object>(lines: BulkLine[], grid: SlotGrid, check: (slot: BulkSlot) => C) =>
+  lines.map((l) => ({
+    ...l,
+    items: l.slots.flatMap((x) => {
+      const range = normalizeRange(x.start, x.end, grid);
+      if (!range) return [];
+      const slot = { dateISO: x.dateISO, ...range };
+      return [{ ...slot, ...check(slot) }];
+    }),
+  }));
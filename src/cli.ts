@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { parseArgs } from "node:util";
+import { composeMessage, defaultTemplates, slotsFromIcs, slotsFromJson } from "./compose";
+import { makeT } from "./i18n";
+import { isLocale, isTimeFormat, type Locale } from "./locale";
+import { parseTemplatesJson } from "./tplLibrary";
+import type { Tpl } from "./types";
+import { isValidTimeZone } from "./tz";
+
+/** ====== CLI：候補ファイル＋テンプレ＋宛先名 → アプリの「出力」と同じ文面 ====== */
+const USAGE = `使い方: npm run appoint -- --slots <候補.json|予定.ics> --to <宛先名> [オプション]
+
+  --slots <file>          候補（JSON：[{"dateISO":"2025-09-25","start":"13:00","end":"14:00"}] / .ics）
+  --template <file>       テンプレ（.txt は本文そのもの / .json はアプリの書き出しファイル）
+  --template-name <name>  .json の中から使うテンプレ名（省略時は先頭）
+  --to <name>             宛先名
+  --company <name>        会社名
+  --honorific <text>      敬称
+  --tz <zone>             候補の時刻のタイムゾーン（既定：Asia/Tokyo）
+  --recipient-tz <zone>   相手のタイムゾーン（違えば併記）
+  --locale <ja|en>        文面の言語（既定：ja。テンプレ省略時はその言語の初期テンプレ）
+  --time <12h|24h>        時刻の表記（既定：言語に合わせる）
+  --duration <分>         会議の長さ（枠がこれより長ければ「13:00〜17:00の間で1時間」）
+  --starts                長い枠は開始時刻を並べる（13:00 / 14:00 / 15:00 / 16:00）
+`;
+
+const fail = (msg: string): never => {
+  process.stderr.write(`${msg}\n`);
+  process.exit(1);
+};
+
+function loadTemplate(file: string | undefined, name: string | undefined, locale: Locale): Tpl {
+  if (!file) return defaultTemplates(locale)[0];
+  const text = readFileSync(file, "utf8");
+  if (extname(file).toLowerCase() !== ".json") {
+    return { id: "cli", name: name ?? basename(file, extname(file)), content: text.replace(/\r\n/g, "\n") };
+  }
+  const list = parseTemplatesJson(text);
+  const tpl = name ? list.find((t) => t.name === name) : list[0];
+  return tpl ?? fail(`テンプレ「${name}」が見つかりません`);
+}
+
+function main() {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        slots: { type: "string" },
+        template: { type: "string" },
+        "template-name": { type: "string" },
+        to: { type: "string" },
+        company: { type: "string" },
+        honorific: { type: "string" },
+        tz: { type: "string" },
+        "recipient-tz": { type: "string" },
+        locale: { type: "string" },
+        time: { type: "string" },
+        duration: { type: "string" },
+        starts: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    }).values;
+  } catch (err) {
+    return fail(`${(err as Error).message}\n\n${USAGE}`);
+  }
+  if (args.help) return void process.stdout.write(USAGE);
+  if (!args.slots || args.to === undefined) return fail(USAGE);
+
+  const myTz = args.tz ?? "Asia/Tokyo";
+  const recipientTz = args["recipient-tz"];
+  for (const tz of [myTz, recipientTz]) if (tz && !isValidTimeZone(tz)) fail(`タイムゾーンが不正です：${tz}`);
+  const locale = args.locale ?? "ja";
+  if (!isLocale(locale)) return fail(`言語は ja / en のどちらかです：${locale}`);
+  const time = args.time ?? "auto";
+  if (!isTimeFormat(time)) return fail(`時刻の表記は 12h / 24h のどちらかです：${time}`);
+  const duration = Number(args.duration ?? 0);
+  if (!Number.isInteger(duration) || duration < 0) return fail(`会議の長さは分の整数です：${args.duration}`);
+
+  try {
+    const raw = readFileSync(args.slots, "utf8");
+    const slots = extname(args.slots).toLowerCase() === ".ics" ? slotsFromIcs(raw, myTz) : slotsFromJson(raw);
+    const { text, errors } = composeMessage({
+      slots,
+      template: loadTemplate(args.template, args["template-name"], locale),
+      toName: args.to,
+      toCompany: args.company,
+      toHonorific: args.honorific,
+      myTz,
+      recipientTz,
+      locale,
+      timeFormat: time,
+      duration,
+      windowStyle: args.starts ? "starts" : "within",
+    });
+    const t = makeT("ja");
+    for (const e of errors) process.stderr.write(`テンプレ ${e.line}行目：${t(`tpl.error.${e.code}`, e.params)}\n`);
+    process.stdout.write(`${text}\n`);
+  } catch (err) {
+    fail(`読み込めませんでした：${(err as Error).message}`);
+  }
+}
+
+main();
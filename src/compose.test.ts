@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import {
+  composeCandidateList,
+  composeMessage,
+  composeRich,
+  confirmTemplate,
+  DEFAULT_TEMPLATES,
+  defaultTemplates,
+  isConfirmTemplate,
+  mailtoUrl,
+  slotsFromIcs,
+  slotsFromJson,
+  slotsFromList,
+  slotsToJson,
+} from "./compose";
+import { formatTimeRange } from "./locale";
+import { decodeShare, encodeShare } from "./share";
+import { renderTemplate } from "./template";
+import type { Slot } from "./types";
+
+const slot = (dateISO: string, start: number, end: number): Slot => ({ id: `${dateISO}-${start}`, dateISO, start, end });
+const times = (list: Slot[]) => list.map((s) => [s.dateISO, s.start, s.end]);
+
+describe("renderTemplate", () => {
+  it("条件分岐と変数を展開し、閉じ忘れを行番号つきで返す", () => {
+    const ok = renderTemplate("{{#if 会社名}}{{会社名}} {{/if}}{{宛先名}}様", { 会社名: "", 宛先名: "山田" });
+    expect(ok).toEqual({ text: "山田様", errors: [] });
+    const ng = renderTemplate("a\n{{#if 会社名}}b", { 会社名: "x" });
+    expect(ng.errors).toEqual([{ line: 2, code: "unclosed", params: { tag: "if" } }]);
+  });
+});
+
+describe("composeMessage", () => {
+  const slots = [slot("2025-09-26", 600, 660), slot("2025-09-25", 780, 840), slot("2025-09-25", 900, 960)];
+
+  it("アプリの初期テンプレと同じ文面を作る", () => {
+    const { text, errors } = composeMessage({ slots, template: DEFAULT_TEMPLATES[0], toName: "山田", myTz: "Asia/Tokyo" });
+    expect(errors).toEqual([]);
+    expect(text).toBe(
+      "山田 様\n\n以下の日程のいずれかでご都合いかがでしょうか？\n\n" +
+        "・9月25日（木）：13:00〜14:00、15:00〜16:00\n・9月26日（金）：10:00〜11:00\n" +
+        "上記日時でもしご都合が合わない際は再度調整いたしますので、ご一報いただけますと幸いです。\n何卒宜しくお願いいたします。"
+    );
+  });
+
+  it("相手のタイムゾーンが違えば併記する", () => {
+    const { candidateList } = composeMessage({
+      slots: [slot("2025-09-25", 600, 660)],
+      template: { name: "t", content: "{{候補一覧}}" },
+      toName: "",
+      myTz: "Asia/Tokyo",
+      recipientTz: "America/Los_Angeles",
+    });
+    expect(candidateList).toBe("・9月25日（木）：10:00〜11:00 JST / 18:00〜19:00 PDT（前日）");
+  });
+
+  it("テンプレの書式・変数・宛先がない場合の表記", () => {
+    const { text } = composeMessage({
+      slots: [],
+      template: {
+        name: "オンライン",
+        content: "{{宛先名}}\n{{候補一覧}}\n{{URL}}",
+        vars: [{ name: "URL", value: "https://example.com" }],
+        listFormat: { datePattern: "M/D", bullet: "{n}. ", separator: " / ", layout: "perSlot" },
+      },
+      toName: " ",
+      myTz: "Asia/Tokyo",
+    });
+    expect(text).toBe("（宛先名）\n（候補なし）\nhttps://example.com");
+  });
+});
+
+describe("件名・別表記・mailto", () => {
+  const input = {
+    slots: [slot("2025-09-25", 780, 840), slot("2025-09-26", 600, 660)],
+    template: {
+      name: "t",
+      subject: "{{会社名}} 様\n日程のご相談",
+      content: "{{宛先名}} 様\n\n{{候補一覧}}\n\nよろしく<お願い>します",
+    },
+    toName: "山田",
+    toCompany: "A&B",
+    myTz: "Asia/Tokyo",
+  };
+
+  it("件名も差し込み、1行にまとめる", () => {
+    expect(composeMessage(input).subject).toBe("A&B 様 日程のご相談");
+  });
+
+  it("HTML は本文をエスケープし、候補一覧をリストにする", () => {
+    expect(composeRich(input, "html")).toBe(
+      "山田 様<br><ul><li><strong>9月25日（木）</strong>：13:00〜14:00</li>" +
+        "<li><strong>9月26日（金）</strong>：10:00〜11:00</li></ul><br>よろしく&lt;お願い&gt;します"
+    );
+  });
+
+  it("Markdown / Slack は太字の記法が違う", () => {
+    expect(composeRich(input, "markdown")).toContain("- **9月25日（木）**：13:00〜14:00\n- **9月26日（金）**");
+    expect(composeRich(input, "slack")).toContain("- *9月25日（木）*：13:00〜14:00\n");
+  });
+
+  it("mailto は UTF-8 でエンコードし改行を CRLF にする", () => {
+    expect(mailtoUrl("日程 & 候補", "a\nb?")).toBe(
+      "mailto:?subject=%E6%97%A5%E7%A8%8B%20%26%20%E5%80%99%E8%A3%9C&body=a%0D%0Ab%3F"
+    );
+    expect(mailtoUrl("", "x")).toBe("mailto:?body=x");
+  });
+});
+
+describe("言語・時刻の表記", () => {
+  const slots = [slot("2025-09-25", 780, 840), slot("2025-09-25", 900, 960)];
+  const list = (extra: object) =>
+    composeCandidateList({ slots, template: { name: "t", content: "" }, myTz: "Asia/Tokyo", ...extra });
+
+  it("英語は曜日・月名と12時間表記（午前/午後が同じなら片方だけ）", () => {
+    expect(list({ locale: "en" })).toBe("- Thu, Sep 25: 1:00–2:00 PM, 3:00–4:00 PM");
+    expect(list({ locale: "en", timeFormat: "24h" })).toBe("- Thu, Sep 25: 13:00–14:00, 15:00–16:00");
+    expect(list({ locale: "ja", timeFormat: "12h" })).toBe("・9月25日（木）：午後1:00〜2:00、午後3:00〜4:00");
+    expect(formatTimeRange(660, 780, { locale: "en", hour12: true })).toBe("11:00 AM–1:00 PM");
+    expect(formatTimeRange(1380, 1440, { locale: "en", hour12: true })).toBe("11:00 PM–12:00 AM");
+  });
+
+  it("英語の初期テンプレと相手ゾーンの併記", () => {
+    const { text } = composeMessage({
+      slots: [slot("2025-09-25", 600, 660)],
+      template: defaultTemplates("en")[0],
+      toName: "Alex",
+      myTz: "Asia/Tokyo",
+      recipientTz: "America/Los_Angeles",
+      locale: "en",
+    });
+    expect(text).toContain("Dear Alex,\n");
+    expect(text).toContain("- Thu, Sep 25: 10:00–11:00 AM JST / 6:00–7:00 PM PDT (prev. day)\n");
+  });
+});
+
+describe("会議の長さ", () => {
+  const window = slot("2025-09-25", 780, 1020);
+  const list = (extra: object, slots = [window]) =>
+    composeCandidateList({ slots, template: { name: "t", content: "" }, myTz: "Asia/Tokyo", ...extra });
+
+  it("枠の中で◯分 / 開始時刻を並べる", () => {
+    expect(list({ duration: 60 })).toBe("・9月25日（木）：13:00〜17:00の間で1時間");
+    expect(list({ duration: 60, windowStyle: "starts" })).toBe("・9月25日（木）：13:00 / 14:00 / 15:00 / 16:00（各1時間）");
+    expect(list({ duration: 90, windowStyle: "starts", locale: "en" })).toBe(
+      "- Thu, Sep 25: 1:00 PM / 1:30 PM / 2:00 PM / 2:30 PM / 3:00 PM / 3:30 PM (1 hr 30 min each)"
+    );
+    expect(list({ duration: 60, locale: "en" })).toBe("- Thu, Sep 25: 1 hour within 1:00–5:00 PM");
+  });
+
+  it("枠ごとの指定が優先し、枠より短くなければ枠そのまま", () => {
+    const short = slot("2025-09-25", 600, 660);
+    expect(list({ duration: 60 }, [short, { ...window, duration: 30 }])).toBe(
+      "・9月25日（木）：10:00〜11:00、13:00〜17:00の間で30分"
+    );
+  });
+
+  it("相手ゾーンの時刻も併記し、共有リンクにも載る", () => {
+    expect(list({ duration: 120, windowStyle: "starts", recipientTz: "America/Los_Angeles" }, [slot("2025-09-25", 600, 840)])).toBe(
+      "・9月25日（木）：10:00 JST（18:00 PDT（前日）） / 11:00 JST（19:00 PDT（前日）） / 12:00 JST（20:00 PDT（前日））（各2時間）"
+    );
+    const share = { name: "", tz: "Asia/Tokyo", slots: [{ dateISO: "2025-09-25", start: 785, end: 1020, duration: 60 }] };
+    expect(decodeShare(encodeShare(share))).toEqual(share);
+  });
+});
+
+describe("確定連絡", () => {
+  it("{{確定日時}} に確定した枠が入る", () => {
+    const confirmed = [{ ...slot("2025-09-26", 840, 900), confirmed: true }];
+    const { text } = composeMessage({ slots: confirmed, template: confirmTemplate("ja"), toName: "山田", myTz: "Asia/Tokyo" });
+    expect(text).toContain("\n9月26日（金）：14:00〜15:00\n");
+    expect(isConfirmTemplate(DEFAULT_TEMPLATES[0])).toBe(false);
+  });
+});
+
+describe("候補の読み込み", () => {
+  it("JSON：時刻文字列を分にし、重なりはマージする", () => {
+    const list = slotsFromJson(
+      JSON.stringify({
+        slots: [
+          { date: "2025-09-25", start: "13:00", end: "14:00" },
+          { dateISO: "2025-09-25", start: 810, end: 900 },
+        ],
+      })
+    );
+    expect(times(list)).toEqual([["2025-09-25", 780, 900]]);
+    expect(() => slotsFromList([{ date: "9/25", start: "13:00", end: "14:00" }])).toThrow("1件目");
+  });
+
+  it(".ics：指定ゾーンの壁時計にし、終日の予定は除く", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:a",
+      "DTSTART:20250925T040000Z",
+      "DTEND:20250925T050000Z",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:b",
+      "DTSTART;VALUE=DATE:20250926",
+      "DTEND;VALUE=DATE:20250927",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:c",
+      "DTSTART;TZID=Asia/Tokyo:20250926T230000",
+      "DTEND;TZID=Asia/Tokyo:20250927T010000",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect(times(slotsFromIcs(ics, "Asia/Tokyo"))).toEqual([
+      ["2025-09-25", 780, 840],
+      ["2025-09-26", 1380, 1440],
+    ]);
+  });
+
+  it("書き出した候補ファイルはそのまま読み込める", () => {
+    const slots = [slot("2025-09-25", 540, 720), slot("2025-09-25", 600, 660), slot("2025-09-26", 780, 840)];
+    expect(times(slotsFromJson(slotsToJson(slots, "山田")))).toEqual([
+      ["2025-09-25", 540, 720],
+      ["2025-09-26", 780, 840],
+    ]);
+    expect(JSON.parse(slotsToJson(slots, "山田")).name).toBe("山田");
+  });
+});
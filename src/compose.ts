@@ -0,0 +1,322 @@
+import { AppError } from "./i18n";
+import { parseIcs } from "./ics";
+import { mergeSlotInto, normalizeRange } from "./slots";
+import {
+  JA_24H,
+  type Locale,
+  type TimeFormat,
+  type TimeStyle,
+  formatDuration,
+  formatTime,
+  formatTimeRange,
+  timeStyle,
+} from "./locale";
+import {
+  candidateListHtml,
+  candidateListMarkdown,
+  candidateRows,
+  DATE_TIME_SEP,
+  DEFAULT_LIST_FORMATS,
+  escapeHtml,
+  formatCandidateList,
+  formatDate,
+  renderTemplate,
+  varValues,
+  withAliases,
+} from "./template";
+import type { Slot, Tpl, WindowStyle } from "./types";
+import { dateISOIn, wallClockIn, wallTimeToEpoch, zoneAbbr, zonedRangeLabel, zonedTimeLabel } from "./tz";
+
+/** ====== 文面の組み立て（画面なし：アプリと CLI で共通） ====== */
+
+/** ====== デフォルトテンプレ（言語ごと・id は共通） ====== */
+const tpl1 =
+  `{{宛先名}} 様\n\n以下の日程のいずれかでご都合いかがでしょうか？\n\n{{候補一覧}}\n` +
+  `上記日時でもしご都合が合わない際は再度調整いたしますので、ご一報いただけますと幸いです。\n何卒宜しくお願いいたします。`;
+
+const tpl1En =
+  `Dear {{name}},\n\nWould any of the following times work for you?\n\n{{candidates}}\n\n` +
+  `If none of these suit you, just let me know and I will suggest some other options.\n\nBest regards,`;
+
+// 確定連絡（返信で日時が決まったあと）
+const tplConfirm =
+  `{{宛先名}} 様\n\nご返信ありがとうございます。\n以下の日時で確定とさせていただきます。\n\n{{確定日時}}\n\n` +
+  `当日はどうぞよろしくお願いいたします。`;
+
+const tplConfirmEn =
+  `Dear {{name}},\n\nThank you for getting back to me. Our meeting is confirmed for:\n\n{{confirmed}}\n\n` +
+  `I look forward to speaking with you.\n\nBest regards,`;
+
+export const DEFAULT_TEMPLATES_BY_LOCALE: Record<Locale, Tpl[]> = {
+  ja: [
+    { id: "tpl-1", name: "はじめまして用", subject: "お打ち合わせ日程のご相談", content: tpl1 },
+    { id: "tpl-2", name: "対面商談用", content: "", buffer: { before: 30, after: 30 } },
+    { id: "tpl-3", name: "オンライン用", content: "" },
+    { id: "tpl-4", name: "確定連絡", subject: "お打ち合わせ日程確定のご連絡", content: tplConfirm },
+  ],
+  en: [
+    { id: "tpl-1", name: "First contact", subject: "Scheduling a meeting", content: tpl1En },
+    { id: "tpl-2", name: "In-person meeting", content: "", buffer: { before: 30, after: 30 } },
+    { id: "tpl-3", name: "Online meeting", content: "" },
+    { id: "tpl-4", name: "Confirmation", subject: "Meeting confirmed", content: tplConfirmEn },
+  ],
+};
+
+export const DEFAULT_TEMPLATES = DEFAULT_TEMPLATES_BY_LOCALE.ja;
+
+export const defaultTemplates = (locale: Locale) => DEFAULT_TEMPLATES_BY_LOCALE[locale];
+
+/** 確定連絡のテンプレか（本文か件名で {{確定日時}} を使っている） */
+export const isConfirmTemplate = (tpl: Pick<Tpl, "content" | "subject">) =>
+  /\{\{\s*(確定日時|confirmed)\s*\}\}/.test(`${tpl.content}${tpl.subject ?? ""}`);
+
+export const confirmTemplate = (locale: Locale) => defaultTemplates(locale).find(isConfirmTemplate)!;
+
+// 宛先名・確定日時が空のときの表記
+const NO_NAME: Record<Locale, string> = { ja: "（宛先名）", en: "(recipient)" };
+const NO_CONFIRMED: Record<Locale, string> = { ja: "（確定日時）", en: "(confirmed time)" };
+
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+export const mm = (m: number) => `${pad((m / 60) | 0)}:${pad(m % 60)}`;
+
+// "2025-09-25" + 分（tz の壁時計）→ エポックms（1440分は翌日0時）
+export const slotEpoch = (dateISO: string, minutes: number, tz: string) => {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  return wallTimeToEpoch(tz, y, m, d, 0, minutes);
+};
+
+export const sortByTime = <T extends { dateISO: string; start: number }>(list: T[]) =>
+  [...list].sort((a, b) => (a.dateISO === b.dateISO ? a.start - b.start : a.dateISO.localeCompare(b.dateISO)));
+
+/** ====== 会議の長さ：枠（空いている時間帯）がそれより長いときの表記 ====== */
+export type Meeting = { duration?: number; windowStyle?: WindowStyle };
+
+const MEETING_PHRASE: Record<Locale, { within: (range: string, len: string) => string; starts: (times: string, len: string) => string }> = {
+  ja: { within: (r, len) => `${r}の間で${len}`, starts: (t, len) => `${t}（各${len}）` },
+  en: { within: (r, len) => `${len} within ${r}`, starts: (t, len) => `${t} (${len} each)` },
+};
+
+/** 「13:00〜17:00の間で1時間」（range は時間帯の表記） */
+export const withinLabel = (range: string, duration: number, locale: Locale) =>
+  MEETING_PHRASE[locale].within(range, formatDuration(duration, locale));
+
+// 開始時刻の間隔（1時間単位の長さなら毎時、それ以外は30分ごと）
+const startInterval = (duration: number) => (duration % 60 === 0 ? 60 : 30);
+
+/** 枠の中で会議を始められる時刻（13:00〜17:00 で1時間 → 13:00 / 14:00 / 15:00 / 16:00） */
+export function meetingStarts(s: Pick<Slot, "start" | "end">, duration: number) {
+  const out: number[] = [];
+  for (let m = s.start; m + duration <= s.end; m += startInterval(duration)) out.push(m);
+  return out;
+}
+
+/** 枠の会議の長さ（枠ごとの指定 → 全体の指定。枠より短くなければ 0＝枠そのもの） */
+export const effectiveDuration = (s: Slot, meeting: Meeting = {}) => {
+  const d = s.duration ?? meeting.duration ?? 0;
+  return d > 0 && d < s.end - s.start ? d : 0;
+};
+
+/**
+ * 1枠の時間表記（相手ゾーンが違えば併記：10:00〜11:00 JST / 18:00〜19:00 PDT（前日））
+ * 会議が枠より短ければ「13:00〜17:00の間で1時間」か「13:00 / 14:00 / 15:00 / 16:00（各1時間）」
+ */
+export const slotTimeLabel =
+  (myTz: string, recipientTz?: string, style: TimeStyle = JA_24H, meeting: Meeting = {}) => (s: Slot) => {
+    const other = recipientTz && recipientTz !== myTz ? recipientTz : "";
+    const range = () => {
+      const mine = formatTimeRange(s.start, s.end, style);
+      if (!other) return mine;
+      const startMs = slotEpoch(s.dateISO, s.start, myTz);
+      const endMs = slotEpoch(s.dateISO, s.end, myTz);
+      return `${mine} ${zoneAbbr(myTz, startMs)} / ${zonedRangeLabel(other, startMs, endMs, s.dateISO, style)}`;
+    };
+    const duration = effectiveDuration(s, meeting);
+    if (!duration) return range();
+    const starts = meetingStarts(s, duration);
+    if (meeting.windowStyle !== "starts" || starts.length < 2) return withinLabel(range(), duration, style.locale);
+    const at = (m: number) => {
+      const mine = formatTime(m, style);
+      if (!other) return mine;
+      const ms = slotEpoch(s.dateISO, m, myTz);
+      const theirs = zonedTimeLabel(other, ms, s.dateISO, style);
+      return `${mine} ${zoneAbbr(myTz, ms)}${style.locale === "ja" ? `（${theirs}）` : ` (${theirs})`}`;
+    };
+    return MEETING_PHRASE[style.locale].starts(starts.map(at).join(" / "), formatDuration(duration, style.locale));
+  };
+
+export type ComposeInput = {
+  slots: Slot[];
+  template: Pick<Tpl, "name" | "content" | "vars" | "listFormat" | "subject">;
+  toName: string;
+  toCompany?: string;
+  toHonorific?: string;
+  myTz: string;          // 候補の時刻のゾーン
+  recipientTz?: string;  // 相手のゾーン（違えば併記）
+  locale?: Locale;       // 出力の言語（既定：ja）
+  timeFormat?: TimeFormat;
+  duration?: number;     // 会議の長さ（分）。枠がこれより長ければ「枠の中で◯分」と書く
+  windowStyle?: WindowStyle;
+};
+
+type ListInput = Pick<
+  ComposeInput,
+  "slots" | "template" | "myTz" | "recipientTz" | "locale" | "timeFormat" | "duration" | "windowStyle"
+>;
+
+// 候補一覧の材料（並べ替え済みの枠・書式・1枠の時間表記）
+const listParts = (input: ListInput) => {
+  const locale = input.locale ?? "ja";
+  return {
+    locale,
+    slots: sortByTime(input.slots),
+    fmt: input.template.listFormat ?? DEFAULT_LIST_FORMATS[locale],
+    timeLabel: slotTimeLabel(input.myTz, input.recipientTz, timeStyle(locale, input.timeFormat), {
+      duration: input.duration,
+      windowStyle: input.windowStyle,
+    }),
+  };
+};
+
+/** 候補一覧（{{候補一覧}} に入る文字列） */
+export const composeCandidateList = (input: ListInput) => {
+  const p = listParts(input);
+  return formatCandidateList(p.slots, p.fmt, p.timeLabel, p.locale);
+};
+
+/** 確定した枠（{{確定日時}} に入る文字列・候補一覧と同じ日付の書式で1行ずつ） */
+export const composeConfirmed = (input: ListInput) => {
+  const p = listParts(input);
+  const list = p.slots.filter((s) => s.confirmed);
+  if (!list.length) return NO_CONFIRMED[p.locale];
+  const date = (s: Slot) => formatDate(s.dateISO, p.fmt.datePattern, p.locale);
+  return list.map((s) => `${date(s)}${DATE_TIME_SEP[p.locale]}${p.timeLabel(s)}`).join("\n");
+};
+
+// テンプレに渡す値（候補一覧だけ差し替えられるようにする）
+const templateValues = (input: ComposeInput, candidateList: string) => ({
+  ...varValues(input.template.vars),
+  ...withAliases({
+    宛先名: input.toName.trim() || NO_NAME[input.locale ?? "ja"],
+    候補一覧: candidateList,
+    テンプレ名: input.template.name,
+    会社名: (input.toCompany ?? "").trim(),
+    敬称: (input.toHonorific ?? "").trim(),
+    確定日時: composeConfirmed(input),
+  }),
+});
+
+/** テンプレに差し込んだ文面と件名（エラーがあっても可能な範囲で出力する。件名は1行にまとめる） */
+export function composeMessage(input: ComposeInput) {
+  const candidateList = composeCandidateList(input);
+  const values = templateValues(input, candidateList);
+  const { text, errors } = renderTemplate(input.template.content, values);
+  const subject = renderTemplate(input.template.subject ?? "", values);
+  return {
+    text,
+    errors,
+    candidateList,
+    subject: subject.text.replace(/\s*\n\s*/g, " ").trim(),
+    subjectErrors: subject.errors,
+  };
+}
+
+/** ====== 別表記の本文（リッチテキストのメール / Markdown / Slack） ====== */
+export type RichFormat = "html" | "markdown" | "slack";
+
+// 候補一覧の位置の印（テンプレ本文には現れない文字）
+const LIST_MARK = "\u0000";
+
+export function composeRich(input: ComposeInput, format: RichFormat) {
+  const p = listParts(input);
+  const rows = p.slots.length ? candidateRows(p.slots, p.fmt, p.timeLabel, p.locale) : [];
+  const { text } = renderTemplate(input.template.content, templateValues(input, LIST_MARK));
+  if (format !== "html") return text.split(LIST_MARK).join(candidateListMarkdown(rows, p.fmt, p.locale, format));
+  // 一覧はブロック要素なので前後の改行は1つ落とす
+  const list = candidateListHtml(rows, p.fmt, p.locale);
+  return text
+    .split(LIST_MARK)
+    .map((part, i, all) => {
+      let t = part;
+      if (i > 0) t = t.replace(/^\n/, "");
+      if (i < all.length - 1) t = t.replace(/\n$/, "");
+      return escapeHtml(t).replace(/\n/g, "<br>");
+    })
+    .join(list);
+}
+
+/** mailto: リンク（RFC 6068：件名・本文は UTF-8 でパーセントエンコードし、改行は CRLF） */
+export function mailtoUrl(subject: string, body: string) {
+  const enc = (s: string) => encodeURIComponent(s.replace(/\r?\n/g, "\r\n"));
+  const params = [subject ? `subject=${enc(subject)}` : "", `body=${enc(body)}`].filter(Boolean);
+  return `mailto:?${params.join("&")}`;
+}
+
+/** ====== 入力から候補を作る（アプリと同じく重なり・接する枠はマージ） ====== */
+export type SlotInput = { dateISO?: string; date?: string; start: number | string; end: number | string };
+
+const toMinutes = (v: number | string) => {
+  if (typeof v === "number") return v;
+  const m = /^(\d{1,2}):(\d{2})$/.exec(v.trim());
+  if (!m) throw new AppError("slotFile.badTime", { value: v });
+  return Number(m[1]) * 60 + Number(m[2]);
+};
+
+export function slotsFromList(list: SlotInput[]): Slot[] {
+  let out: Slot[] = [];
+  list.forEach((item, i) => {
+    const dateISO = item.dateISO ?? item.date;
+    if (!dateISO || !/^\d{4}-\d{2}-\d{2}$/.test(dateISO)) throw new AppError("slotFile.noDate", { n: i + 1 });
+    const range = normalizeRange(toMinutes(item.start), toMinutes(item.end));
+    if (!range) throw new AppError("slotFile.badRange", { n: i + 1 });
+    out = mergeSlotInto(out, dateISO, range.start, range.end).slots;
+  });
+  return out;
+}
+
+/** JSON（配列 or { slots: [...] }）から候補を読む */
+export function slotsFromJson(text: string): Slot[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new AppError("common.notJson");
+  }
+  const list = Array.isArray(data) ? data : (data as { slots?: unknown })?.slots;
+  if (!Array.isArray(list)) throw new AppError("slotFile.noList");
+  return slotsFromList(list as SlotInput[]);
+}
+
+/** 候補を JSON に書き出す（slotsFromJson で読める形。name は読み込む側での表示名） */
+export const slotsToJson = (slots: Omit<Slot, "id">[], name = "") =>
+  JSON.stringify(
+    {
+      ...(name ? { name } : {}),
+      slots: sortByTime(slots).map((s) => ({ date: s.dateISO, start: mm(s.start), end: mm(s.end) })),
+    },
+    null,
+    2
+  );
+
+/**
+ * .ics の各予定（繰り返しは初回のみ）を tz の壁時計で候補にする
+ * 終日の予定は除き、日をまたぐ予定は 24:00 で切る
+ */
+export function slotsFromIcs(text: string, tz: string): Slot[] {
+  let out: Slot[] = [];
+  for (const ev of parseIcs(text)) {
+    const st = ev.start;
+    if (st.allDay) continue;
+    const startMs =
+      st.tz === "UTC"
+        ? Date.UTC(st.y, st.mo - 1, st.d, st.h, st.mi, st.s)
+        : wallTimeToEpoch(st.tz ?? tz, st.y, st.mo, st.d, st.h, st.mi, st.s);
+    const endMs = startMs + ev.durationMs;
+    const dateISO = dateISOIn(tz, startMs);
+    const a = wallClockIn(tz, startMs);
+    const b = wallClockIn(tz, endMs);
+    const end = dateISOIn(tz, endMs) === dateISO ? b.h * 60 + b.mi : 1440;
+    const range = normalizeRange(a.h * 60 + a.mi, end);
+    if (range) out = mergeSlotInto(out, dateISO, range.start, range.end).slots;
+  }
+  return out;
+}
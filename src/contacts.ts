@@ -0,0 +1,93 @@
+import { AppError } from "./i18n";
+import type { Contact, ProposalRecord, Tpl } from "./types";
+
+/** ====== 連絡先（CSV入出力・提案履歴） ====== */
+const HISTORY_LIMIT = 50;
+const CSV_HEADER = ["name", "honorific", "company", "template", "timeZone", "notes"];
+
+export const newContact = (patch: Partial<Contact> = {}): Contact => ({
+  id: crypto.randomUUID(),
+  name: "",
+  honorific: "様",
+  company: "",
+  notes: "",
+  history: [],
+  ...patch,
+});
+
+export const addProposal = (c: Contact, rec: ProposalRecord): Contact => ({
+  ...c,
+  history: [rec, ...c.history].slice(0, HISTORY_LIMIT),
+});
+
+const csvCell = (v: string) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+/** 連絡先 → CSV（テンプレは名前で書き出す） */
+export function contactsToCsv(list: Contact[], templates: Tpl[]) {
+  const tplName = (id?: string) => templates.find((t) => t.id === id)?.name ?? "";
+  const rows = list.map((c) => [c.name, c.honorific, c.company, tplName(c.tplId), c.timeZone ?? "", c.notes]);
+  // Excel で文字化けしないよう BOM を付ける
+  return "\uFEFF" + [CSV_HEADER, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// RFC 4180 相当（ダブルクォート・改行入りセル対応）
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/** CSV → 連絡先（1行目は見出し。列名で対応付け、無ければ既定の列順） */
+export function contactsFromCsv(text: string, templates: Tpl[]): Contact[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) throw new AppError("contacts.error.empty");
+  const head = rows[0].map((h) => h.trim().toLowerCase());
+  const hasHeader = head.includes("name");
+  const col = (name: string) => (hasHeader ? head.indexOf(name.toLowerCase()) : CSV_HEADER.indexOf(name));
+  const get = (r: string[], name: string) => {
+    const i = col(name);
+    return i >= 0 ? (r[i] ?? "").trim() : "";
+  };
+  return rows.slice(hasHeader ? 1 : 0).flatMap((r) => {
+    const name = get(r, "name");
+    if (!name) return [];
+    const tplName = get(r, "template");
+    return [
+      newContact({
+        name,
+        honorific: get(r, "honorific"),
+        company: get(r, "company"),
+        tplId: templates.find((t) => t.name === tplName)?.id,
+        timeZone: get(r, "timeZone") || undefined,
+        notes: get(r, "notes"),
+      }),
+    ];
+  });
+}
@@ -0,0 +1,83 @@
+import { type BusyRange, findBusyOverlap } from "./ics";
+import { NO_BUFFER, withBuffer } from "./slots";
+import type { Draft, DraftStatus, Slot, SlotBuffer } from "./types";
+
+/** ====== 案件（下書き） ====== */
+// 表示名は t(`status.${status}`)
+export const DRAFT_STATUSES: DraftStatus[] = ["draft", "sent", "confirmed", "cancelled"];
+
+// 候補を押さえている（他の案件で同じ時間を出さない）状態か
+export const isOpenDraft = (d: Draft) => d.status === "draft" || d.status === "sent";
+
+export type DraftFields = Omit<Draft, "id" | "name" | "status" | "updatedAt">;
+
+export const newDraft = (name: string, fields: Partial<DraftFields> = {}): Draft => ({
+  id: crypto.randomUUID(),
+  name,
+  status: "draft",
+  updatedAt: Date.now(),
+  slots: [],
+  toName: "",
+  toCompany: "",
+  toHonorific: "",
+  contactId: "",
+  tplId: "tpl-1",
+  recipientTz: "",
+  duration: 0,
+  windowStyle: "within",
+  text: "",
+  ...fields,
+});
+
+const sameFields = (d: Draft, f: DraftFields) =>
+  (Object.keys(f) as (keyof DraftFields)[]).every((k) =>
+    k === "slots" ? JSON.stringify(d.slots) === JSON.stringify(f.slots) : d[k] === f[k]
+  );
+
+/** 作業中の内容を案件に書き戻す（変わっていなければ同じ配列を返す） */
+export function syncDraft(list: Draft[], id: string, fields: DraftFields, at = Date.now()) {
+  const d = list.find((x) => x.id === id);
+  if (!d || sameFields(d, fields)) return list;
+  return list.map((x) => (x.id === id ? { ...x, ...fields, updatedAt: at } : x));
+}
+
+export type HeldSlot = Slot & { draftId: string; draftName: string; buffer: SlotBuffer };
+
+/** ほかの未確定の案件が押さえている枠（前後の余白は案件のテンプレから） */
+export const heldSlots = (
+  list: Draft[],
+  activeId: string,
+  bufferOf: (d: Draft) => SlotBuffer | undefined = () => undefined
+): HeldSlot[] =>
+  list
+    .filter((d) => d.id !== activeId && isOpenDraft(d))
+    .flatMap((d) => {
+      const buffer = bufferOf(d) ?? NO_BUFFER;
+      return d.slots.map((s) => ({ ...s, draftId: d.id, draftName: d.name, buffer }));
+    });
+
+/**
+ * 追加する枠と重なる予定・ほかの案件の押さえ（前後の余白も含めて見る）
+ * core は余白ではなく会議そのものと重なっているか
+ */
+export type SlotConflict =
+  | { kind: "busy"; busy: BusyRange; core: boolean }
+  | { kind: "held"; held: HeldSlot; core: boolean };
+
+export function findSlotConflict(
+  dateISO: string,
+  range: { start: number; end: number },
+  buffer: SlotBuffer,
+  busy: BusyRange[] | undefined,
+  held: HeldSlot[]
+): SlotConflict | null {
+  const overlaps = (x: { start: number; end: number }) => x.start < range.end && range.start < x.end;
+  const around = withBuffer(range, buffer);
+  const hit = findBusyOverlap(busy, around.start, around.end);
+  if (hit) return { kind: "busy", busy: hit, core: overlaps(hit) };
+  const h = held.find((x) => {
+    const b = withBuffer(x, x.buffer);
+    return x.dateISO === dateISO && b.start < around.end && around.start < b.end;
+  });
+  return h ? { kind: "held", held: h, core: overlaps(h) } : null;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { commonRanges, groupHeat } from "./group";
+import type { Slot } from "./types";
+
+const slot = (dateISO: string, start: number, end: number): Slot => ({ id: `${dateISO}-${start}`, dateISO, start, end });
+
+describe("複数人の空き", () => {
+  const d = "2025-09-25";
+  const a = [slot(d, 540, 720), slot(d, 600, 660), slot("2025-09-26", 780, 840)];
+  const b = [slot(d, 630, 780)];
+
+  it("人数ごとの区間にし、全員が最小の長さ以上空いている時間を出す", () => {
+    const heat = groupHeat([a, b]);
+    expect(heat[d]).toEqual([
+      { start: 540, end: 630, count: 1 },
+      { start: 630, end: 720, count: 2 },
+      { start: 720, end: 780, count: 1 },
+    ]);
+    expect(commonRanges(heat, 2, 60)).toEqual([{ dateISO: d, start: 630, end: 720 }]);
+    expect(commonRanges(heat, 2, 120)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { Slot } from "./types";
+
+/** ====== 複数人の空き時間の重ね合わせ（この端末のほかの uid の候補・同僚から受け取った候補ファイル） ====== */
+export type GroupSlot = Omit<Slot, "id">;
+
+// uid があればその uid の今の候補を読む。なければ取り込んだファイルの slots
+export type GroupMember = { id: string; name: string; uid?: string; slots?: GroupSlot[] };
+
+export type GroupSettings = {
+  members: GroupMember[];
+  minLength: number; // 候補にする共通の時間の最小の長さ（分）
+  show: boolean;     // 時間トラック・カレンダーに重ねて表示
+};
+
+export const DEFAULT_GROUP: GroupSettings = { members: [], minLength: 60, show: true };
+
+// count 人が空いている時間帯
+export type HeatSegment = { start: number; end: number; count: number };
+
+/** 日付ごとに、何人が空いているかの区間（同じ人の重なる枠は1人と数える） */
+export function groupHeat(people: GroupSlot[][]): Record<string, HeatSegment[]> {
+  const edges: Record<string, { at: number; d: number }[]> = {};
+  for (const list of people) {
+    const byDate: Record<string, GroupSlot[]> = {};
+    for (const s of list) (byDate[s.dateISO] ??= []).push(s);
+    for (const [iso, day] of Object.entries(byDate)) {
+      // その人の枠を先にまとめる
+      const merged: { start: number; end: number }[] = [];
+      for (const s of [...day].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && s.start <= last.end) last.end = Math.max(last.end, s.end);
+        else merged.push({ start: s.start, end: s.end });
+      }
+      for (const r of merged) (edges[iso] ??= []).push({ at: r.start, d: 1 }, { at: r.end, d: -1 });
+    }
+  }
+  const out: Record<string, HeatSegment[]> = {};
+  for (const [iso, list] of Object.entries(edges)) {
+    list.sort((a, b) => a.at - b.at || a.d - b.d);
+    const segs: HeatSegment[] = [];
+    let count = 0;
+    for (let i = 0; i < list.length; i++) {
+      count += list[i].d;
+      const next = list[i + 1];
+      if (!next || next.at === list[i].at || count <= 0) continue;
+      const last = segs[segs.length - 1];
+      // 同じ人数で続く区間はつなげる
+      if (last && last.end === list[i].at && last.count === count) last.end = next.at;
+      else segs.push({ start: list[i].at, end: next.at, count });
+    }
+    out[iso] = segs;
+  }
+  return out;
+}
+
+/** 全員（total 人）が空いていて minLength 分以上続く時間帯（日付・時刻順） */
+export const commonRanges = (heat: Record<string, HeatSegment[]>, total: number, minLength: number): GroupSlot[] =>
+  Object.keys(heat)
+    .sort()
+    .flatMap((dateISO) =>
+      heat[dateISO]
+        .filter((s) => s.count >= total && s.end - s.start >= minLength)
+        .map((s) => ({ dateISO, start: s.start, end: s.end }))
+    );
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { emptyHistory, pushHistory, redoHistory, undoHistory } from "./history";
+
+describe("元に戻す / やり直す", () => {
+  it("戻して、やり直せる", () => {
+    let h = pushHistory(pushHistory(emptyHistory<number>(), 1), 2); // 1 → 2 → 3（今）
+    const u1 = undoHistory(h, 3)!;
+    expect(u1.state).toBe(2);
+    const u2 = undoHistory(u1.history, u1.state)!;
+    expect(u2.state).toBe(1);
+    expect(undoHistory(u2.history, u2.state)).toBeNull();
+    const r = redoHistory(u2.history, u2.state)!;
+    expect(r.state).toBe(2);
+    h = r.history;
+    expect(h).toEqual({ past: [1], future: [3] });
+  });
+
+  it("新しく変更したらやり直しは捨てる", () => {
+    const u = undoHistory(pushHistory(emptyHistory<number>(), 1), 2)!;
+    expect(u.history.future).toEqual([2]);
+    const h = pushHistory(u.history, u.state);
+    expect(h.future).toEqual([]);
+    expect(redoHistory(h, 5)).toBeNull();
+  });
+
+  it("上限を超えた古いものから捨てる", () => {
+    let h = emptyHistory<number>();
+    for (let i = 0; i < 5; i++) h = pushHistory(h, i, 3);
+    expect(h.past).toEqual([2, 3, 4]);
+  });
+});
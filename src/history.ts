@@ -0,0 +1,59 @@
+/** ====== 元に戻す / やり直す ====== */
+export type History<T> = {
+  past: T[];    // 古い順（末尾が直前の状態）
+  future: T[];  // 近い順（先頭が次にやり直す状態）
+};
+
+export const HISTORY_LIMIT = 50;
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+/** 変更前の状態を積む（やり直しは捨てる・上限を超えた古いものは捨てる） */
+export const pushHistory = <T>(h: History<T>, prev: T, limit = HISTORY_LIMIT): History<T> => ({
+  past: [...h.past, prev].slice(-limit),
+  future: [],
+});
+
+/** 1つ戻す（戻せなければ null） */
+export function undoHistory<T>(h: History<T>, current: T): { history: History<T>; state: T } | null {
+  if (!h.past.length) return null;
+  return {
+    history: { past: h.past.slice(0, -1), future: [current, ...h.future] },
+    state: h.past[h.past.length - 1],
+  };
+}
+
+/** 1つやり直す（やり直せなければ null） */
+export function redoHistory<T>(h: History<T>, current: T): { history: History<T>; state: T } | null {
+  if (!h.future.length) return null;
+  return {
+    history: { past: [...h.past, current], future: h.future.slice(1) },
+    state: h.future[0],
+  };
+}
+
+/** sessionStorage から読む（同じタブの再読み込みでは残る） */
+export function loadHistory<T>(key: string): History<T> {
+  try {
+    const raw = JSON.parse(sessionStorage.getItem(key) ?? "null");
+    if (raw && Array.isArray(raw.past) && Array.isArray(raw.future)) return raw as History<T>;
+  } catch {}
+  return emptyHistory<T>();
+}
+
+/** 容量を超えたら古い履歴から半分ずつ捨てて保存 */
+export function saveHistory<T>(key: string, h: History<T>) {
+  let cur = h;
+  for (;;) {
+    try {
+      sessionStorage.setItem(key, JSON.stringify(cur));
+      return;
+    } catch {
+      if (!cur.past.length && !cur.future.length) return;
+      cur = {
+        past: cur.past.slice(Math.ceil(cur.past.length / 2)),
+        future: cur.future.slice(0, Math.floor(cur.future.length / 2)),
+      };
+    }
+  }
+}
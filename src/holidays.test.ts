@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { closureName, holidayName, japaneseHolidays } from "./holidays";
+
+describe("祝日", () => {
+  it("春分・秋分の日（1980 年より前も）", () => {
+    expect(holidayName("1960-03-20")).toBe("春分の日");
+    expect(holidayName("1979-03-21")).toBe("春分の日");
+    expect(holidayName("1979-09-24")).toBe("秋分の日");
+    expect(holidayName("2012-09-22")).toBe("秋分の日");
+    expect(holidayName("2024-03-20")).toBe("春分の日");
+    expect(holidayName("2025-09-23")).toBe("秋分の日");
+  });
+
+  it("ハッピーマンデー", () => {
+    expect(holidayName("2025-01-13")).toBe("成人の日");
+    expect(holidayName("2025-07-21")).toBe("海の日");
+    expect(holidayName("2025-09-15")).toBe("敬老の日");
+    expect(holidayName("2025-10-13")).toBe("スポーツの日");
+    expect(holidayName("1999-01-15")).toBe("成人の日");
+  });
+
+  it("振替休日（2007 年以降は祝日の続く先の平日）", () => {
+    expect(holidayName("2025-02-24")).toBe("振替休日");
+    expect(holidayName("2025-11-24")).toBe("振替休日");
+    expect(holidayName("2008-05-06")).toBe("振替休日");
+    expect(holidayName("2026-05-06")).toBe("振替休日");
+  });
+
+  it("国民の休日（祝日に挟まれた平日）", () => {
+    expect(holidayName("2009-09-22")).toBe("国民の休日");
+    expect(holidayName("2015-09-22")).toBe("国民の休日");
+    expect(holidayName("2026-09-22")).toBe("国民の休日");
+    expect(holidayName("2019-04-30")).toBe("国民の休日");
+    expect(holidayName("2019-05-02")).toBe("国民の休日");
+  });
+
+  it("一覧はその年の分だけ日付順", () => {
+    const keys = [...japaneseHolidays(2025).keys()];
+    expect(keys.every((k) => k.startsWith("2025-"))).toBe(true);
+    expect(keys).toEqual([...keys].sort());
+    expect(keys).toHaveLength(19);
+  });
+});
+
+describe("会社の休業日", () => {
+  const closures = [
+    { id: "a", name: "年末年始", start: "2025-12-29", end: "2026-01-03", yearly: true },
+    { id: "b", name: "夏季休業", start: "2025-08-13", end: "2025-08-15", yearly: false },
+  ];
+
+  it("毎年の範囲は年をまたいでも月日で判定する", () => {
+    expect(closureName("2027-01-02", closures)).toBe("年末年始");
+    expect(closureName("2027-12-28", closures)).toBeUndefined();
+  });
+
+  it("毎年でない範囲はその年だけ", () => {
+    expect(closureName("2025-08-14", closures)).toBe("夏季休業");
+    expect(closureName("2026-08-14", closures)).toBeUndefined();
+  });
+});
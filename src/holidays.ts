@@ -0,0 +1,136 @@
+/** ====== 日本の祝日（オフライン計算） ======
+ * 祝日法の固定日・ハッピーマンデー・春分/秋分の近似式・振替休日・国民の休日に対応
+ * （春分/秋分の式は 1900〜2099 年の範囲で有効）
+ */
+
+// 会社独自の休業日（年末年始・夏季休業など）
+export type CompanyClosure = {
+  id: string;
+  name: string;
+  start: string;   // "2025-12-29"
+  end: string;     // "2026-01-03"（両端含む）
+  yearly: boolean; // 毎年（月日のみで判定）
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+const iso = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
+const dow = (y: number, m: number, d: number) => new Date(Date.UTC(y, m - 1, d)).getUTCDay(); // 日=0
+const isoPlus = (s: string, n: number) => {
+  const [y, m, d] = s.split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d) + n * DAY_MS);
+  return iso(t.getUTCFullYear(), t.getUTCMonth() + 1, t.getUTCDate());
+};
+
+// 第n月曜日
+const nthMonday = (y: number, m: number, n: number) => 1 + ((8 - dow(y, m, 1)) % 7) + (n - 1) * 7;
+
+// 1979 年以前は閏年の補正を (y - 1983) / 4 の切り捨て（0 方向）で数える
+const leapShift = (y: number) => (y < 1980 ? Math.trunc((y - 1983) / 4) : Math.floor((y - 1980) / 4));
+const vernalEquinox = (y: number) =>
+  Math.floor((y < 1980 ? 20.8357 : 20.8431) + 0.242194 * (y - 1980) - leapShift(y));
+const autumnalEquinox = (y: number) =>
+  Math.floor((y < 1980 ? 23.2588 : 23.2488) + 0.242194 * (y - 1980) - leapShift(y));
+
+// 一度限りの祝日（皇室行事など）
+const SPECIAL: Record<string, string> = {
+  "1959-04-10": "結婚の儀",
+  "1989-02-24": "大喪の礼",
+  "1990-11-12": "即位礼正殿の儀",
+  "1993-06-09": "結婚の儀",
+  "2019-05-01": "即位の日",
+  "2019-10-22": "即位礼正殿の儀",
+};
+
+// 振替休日・国民の休日を除いた「国民の祝日」
+function baseHolidays(y: number) {
+  const h = new Map<string, string>();
+  const add = (m: number, d: number, name: string) => h.set(iso(y, m, d), name);
+  if (y < 1949) return h;
+
+  add(1, 1, "元日");
+  add(1, y >= 2000 ? nthMonday(y, 1, 2) : 15, "成人の日");
+  if (y >= 1967) add(2, 11, "建国記念の日");
+  if (y >= 2020) add(2, 23, "天皇誕生日");
+  add(3, vernalEquinox(y), "春分の日");
+  add(4, 29, y >= 2007 ? "昭和の日" : y >= 1989 ? "みどりの日" : "天皇誕生日");
+  add(5, 3, "憲法記念日");
+  if (y >= 2007) add(5, 4, "みどりの日");
+  add(5, 5, "こどもの日");
+  if (y === 2020) add(7, 23, "海の日");
+  else if (y === 2021) add(7, 22, "海の日");
+  else if (y >= 2003) add(7, nthMonday(y, 7, 3), "海の日");
+  else if (y >= 1996) add(7, 20, "海の日");
+  if (y === 2020) add(8, 10, "山の日");
+  else if (y === 2021) add(8, 8, "山の日");
+  else if (y >= 2016) add(8, 11, "山の日");
+  if (y >= 2003) add(9, nthMonday(y, 9, 3), "敬老の日");
+  else if (y >= 1966) add(9, 15, "敬老の日");
+  add(9, autumnalEquinox(y), "秋分の日");
+  if (y === 2020) add(7, 24, "スポーツの日");
+  else if (y === 2021) add(7, 23, "スポーツの日");
+  else if (y >= 2022) add(10, nthMonday(y, 10, 2), "スポーツの日");
+  else if (y >= 2000) add(10, nthMonday(y, 10, 2), "体育の日");
+  else if (y >= 1966) add(10, 10, "体育の日");
+  add(11, 3, "文化の日");
+  add(11, 23, "勤労感謝の日");
+  if (y >= 1989 && y <= 2018) add(12, 23, "天皇誕生日");
+
+  for (const [k, v] of Object.entries(SPECIAL)) if (k.startsWith(`${y}-`)) h.set(k, v);
+  return h;
+}
+
+const cache = new Map<number, Map<string, string>>();
+
+/** その年の祝日一覧（"YYYY-MM-DD" → 名称） */
+export function japaneseHolidays(y: number): Map<string, string> {
+  const hit = cache.get(y);
+  if (hit) return hit;
+  // 年末年始をまたぐ振替に備えて前後の年も参照
+  const base = new Map([...baseHolidays(y - 1), ...baseHolidays(y), ...baseHolidays(y + 1)]);
+  const all = new Map(base);
+
+  // 振替休日（1973/4/12〜）：日曜の祝日の後の最初の平日（2006年までは翌月曜のみ）
+  for (const day of base.keys()) {
+    const [yy, m, d] = day.split("-").map(Number);
+    if (dow(yy, m, d) !== 0 || day < "1973-04-12") continue;
+    let next = isoPlus(day, 1);
+    if (day >= "2007-01-01") while (all.has(next)) next = isoPlus(next, 1);
+    if (!all.has(next)) all.set(next, "振替休日");
+  }
+
+  // 国民の休日（1985/12/27〜）：祝日に挟まれた平日
+  for (const day of base.keys()) {
+    const mid = isoPlus(day, 1);
+    const [yy, m, d] = mid.split("-").map(Number);
+    if (mid < "1985-12-27" || all.has(mid) || dow(yy, m, d) === 0) continue;
+    if (base.has(isoPlus(day, 2))) all.set(mid, "国民の休日");
+  }
+
+  const out = new Map([...all].filter(([k]) => k.startsWith(`${y}-`)).sort(([a], [b]) => a.localeCompare(b)));
+  cache.set(y, out);
+  return out;
+}
+
+export const holidayName = (dateISO: string) => japaneseHolidays(Number(dateISO.slice(0, 4))).get(dateISO);
+
+/** 会社の休業日に当たればその名称 */
+export function closureName(dateISO: string, closures: CompanyClosure[]) {
+  for (const c of closures) {
+    if (!c.start || !c.end) continue;
+    if (!c.yearly) {
+      if (c.start <= dateISO && dateISO <= c.end) return c.name;
+      continue;
+    }
+    // 毎年：月日で比較（12/29〜1/3 のように年をまたぐ範囲も可）
+    const md = dateISO.slice(5);
+    const s = c.start.slice(5);
+    const e = c.end.slice(5);
+    if (s <= e ? s <= md && md <= e : md >= s || md <= e) return c.name;
+  }
+  return undefined;
+}
+
+/** 祝日 or 休業日の名称（どちらでもなければ undefined） */
+export const dayOffName = (dateISO: string, closures: CompanyClosure[]) =>
+  holidayName(dateISO) ?? closureName(dateISO, closures);
@@ -0,0 +1,706 @@
+import type { Locale } from "./locale";
+
+/** ====== 画面の文言（日本語を基準に、英語は同じキーで持つ） ======
+ * {name} の形の差し込みは t(key, { name }) で埋める
+ */
+const ja = {
+  "app.title": "アポイント文作成",
+  "app.undo": "元に戻す（Ctrl+Z）",
+  "app.redo": "やり直す（Ctrl+Shift+Z）",
+  "app.newerSchema": "新しい版のアプリで保存されたデータです。データを守るため、このページでの変更は保存されません。",
+  "app.uiLocale": "表示言語",
+  "app.updateReady": "新しい版があります。",
+  "app.update": "更新する",
+  "app.install": "ホーム画面に追加",
+  "app.installTitle": "アプリとして追加すると、オフラインでも開けます",
+  "app.iosInstall": "ホーム画面に追加するには、共有ボタン（□↑）から「ホーム画面に追加」を選んでください。",
+  "app.dismiss": "閉じる",
+
+  "common.delete": "削除",
+  "common.add": "＋追加",
+  "common.copy": "コピー",
+  "common.untitled": "無題",
+  "common.noCandidates": "（候補なし）",
+  "common.confirmed": "確定",
+  "common.busy": "予定あり",
+  "common.copied": "コピーしました！",
+  "common.copyFallback": "自動でコピーできませんでした。選択してコピーしてください",
+  "common.loadFailed": "読み込めませんでした：{message}",
+  "common.undo": "元に戻す",
+  "common.minutes": "{n}分",
+  "common.notJson": "JSONとして読み込めません",
+
+  "fmt.md": "M月D日",
+  "fmt.mdw": "M月D日（ddd）",
+  "fmt.short": "M/D",
+  "fmt.shortW": "M/D（ddd）",
+  "fmt.yearMonth": "YYYY年 M月",
+  "fmt.listSep": "、",
+
+  "status.draft": "下書き",
+  "status.sent": "送付済み",
+  "status.confirmed": "確定",
+  "status.cancelled": "取り消し",
+
+  "draft.defaultName": "案件{n}",
+  "draft.namePrompt": "案件名",
+  "draft.option": "{name}（{status}・{n}枠）",
+  "draft.new": "＋新しい案件",
+  "draft.rename": "名前を変更",
+  "draft.confirmDelete": "案件「{name}」を削除します。候補も消えます。よろしいですか？",
+  "draft.notes": "メモ",
+  "draft.notesPlaceholder": "共有で受け取った文面や、やりとりのメモ",
+  "draft.fromShare": "共有された内容から案件「{name}」を作りました",
+
+  "slot.offDay": "{name}のため登録しませんでした",
+  "slot.busyBlocked": "予定と重なるため登録しませんでした（{label}）",
+  "slot.busyWarn": "予定と重なっています（{label}）",
+  "slot.heldWarn": "「{draft}」で押さえている {range} と重なっています",
+  "slot.bufferBusyBlocked": "前後の余白が予定と重なるため登録しませんでした（{label}）",
+  "slot.bufferBusyWarn": "前後の余白が予定と重なっています（{label}）",
+  "slot.bufferHeldWarn": "前後の余白が「{draft}」で押さえている {range} と重なっています",
+  "slot.merged": "隣り合う枠とまとめました",
+  "slot.removed": "{range} を削除しました",
+  "slot.moved": "{date}へ移動しました",
+  "slot.copied": "{date}へコピーしました",
+  "slot.label": "{date} {range} 候補",
+  "slot.labelConfirmed": "{date} {range} 候補（確定）",
+  "slot.free": "{date} {time} 空き",
+  "slot.startHandle": "{label}の開始時刻",
+  "slot.endHandle": "{label}の終了時刻",
+  "slot.deleteLabel": "{label}を削除",
+  "slot.held": "保留：{name}",
+  "slotFile.noList": "候補の配列がありません",
+  "slotFile.noDate": "{n}件目：日付（YYYY-MM-DD）がありません",
+  "slotFile.badRange": "{n}件目：時間帯が正しくありません",
+  "slotFile.badTime": "時刻が読めません：{value}",
+
+  "calendar.cellCount": " 候補{n}件",
+
+  "track.dayTitle": "{date} の時間選択",
+  "track.weekTitle": "週の時間選択",
+  "track.layoutDay": "月＋日",
+  "track.layoutWeek": "週",
+  "track.weekdays": "平日",
+  "track.sevenDays": "7日",
+  "track.dropTitle": "枠をカレンダーの日付へドロップしたとき（Ctrl/Alt で逆）",
+  "track.dropLabel": "日付へドロップ",
+  "track.dropMove": "移動",
+  "track.dropCopy": "コピー",
+  "track.step": "刻み",
+  "track.minSlot": "最小の長さ",
+  "track.role": "時間トラック",
+  "track.aria":
+    "時間トラック。上下の矢印で15分ずつ、左右の矢印で日付を移動。Enterで候補を作成、Shift+上下で終了時刻、Shift+Alt+上下で開始時刻を変更、Deleteで削除",
+
+  "bulk.title": "まとめて入力",
+  "bulk.placeholder": "1行に1つ（例）\n9/25 13-15\n9/26 午前\n来週火曜 10:00〜11:30\n毎週水曜 15時 4週分",
+  "bulk.hint": "開始時刻だけの行は会議の長さ（未設定なら1時間）。「毎週」は回数がなければ4週分。",
+  "bulk.line": "{n}行目",
+  "bulk.add": "{n}件を追加",
+  "bulk.added": "{n}件の候補を追加しました",
+  "bulk.error.unknown": "日付や時刻が読み取れません",
+  "bulk.error.noDate": "日付（9/25、来週火曜など）がありません",
+  "bulk.error.badDate": "存在しない日付です",
+  "bulk.error.past": "過ぎた日付です",
+  "bulk.error.wrongWeekday": "日付と曜日が合っていません",
+  "bulk.error.noTime": "時刻（13-15、10:00〜11:30、午前など）がありません",
+  "bulk.error.badTime": "時刻が日付をまたいでいます",
+
+  "suggest.title": "候補の自動提案",
+  "suggest.from": "期間（開始）",
+  "suggest.to": "期間（終了）",
+  "suggest.workHours": "勤務時間",
+  "suggest.lunch": "昼休み",
+  "suggest.duration": "会議の長さ",
+  "suggest.lead": "何時間後から",
+  "suggest.perDay": "1日の上限",
+  "suggest.count": "件数",
+  "suggest.spread": "なるべく別の日に分ける",
+  "suggest.run": "候補を提案して追加",
+  "suggest.hint": "取り込んだ予定・既存の候補と重ならない時間から選びます。",
+  "suggest.badRange": "期間の指定が正しくありません",
+  "suggest.none": "条件に合う空き時間が見つかりませんでした",
+  "suggest.added": "{n}件の候補を追加しました",
+
+  "group.title": "複数人の空き（{n}人）",
+  "group.hint": "選んだ人の候補（空いている時間）を重ね、全員が空いている時間を探します。時間トラックとカレンダーに、空いている人数の濃さで表示します。",
+  "group.uids": "この端末の UID（今の候補）",
+  "group.thisUid": "（この UID）",
+  "group.slots": "{n}枠",
+  "group.importFile": "同僚の候補ファイルを読み込む",
+  "group.exportMine": "自分の候補を書き出す",
+  "group.minLength": "最小の長さ",
+  "group.show": "トラック・カレンダーに表示",
+  "group.common": "全員が空いている時間：{n}件",
+  "group.add": "{n}件を候補に追加",
+  "group.added": "全員が空いている{n}件を候補に追加しました",
+  "group.noneAdded": "追加できる時間がありませんでした（休業日・予定と重なるなど）",
+  "group.heat": "{total}人中{n}人が空き",
+  "group.cellCommon": " 全員の空き{time}",
+
+  "contacts.title": "連絡先（{n}）",
+  "contacts.newName": "新しい連絡先",
+  "contacts.exportCsv": "CSV書き出し",
+  "contacts.importCsv": "CSV読み込み",
+  "contacts.name": "名前",
+  "contacts.honorific": "敬称",
+  "contacts.company": "会社名",
+  "contacts.noTemplate": "（テンプレ指定なし）",
+  "contacts.noTimeZone": "（タイムゾーン指定なし）",
+  "contacts.notes": "メモ",
+  "contacts.apply": "宛先欄に反映",
+  "contacts.history": "提案履歴（{n}）",
+  "contacts.historyEmpty": "（コピーすると記録されます）",
+  "contacts.historyItem": "{at}／{tpl}／{n}枠",
+  "contacts.hint": "宛先欄で連絡先を選ぶと編集・履歴を表示します。",
+  "contacts.confirmDelete": "連絡先「{name}」を削除します。提案履歴も消えます。よろしいですか？",
+  "contacts.imported": "{n}件の連絡先を読み込みました",
+  "contacts.error.empty": "CSVが空です",
+
+  "daysOff.title": "祝日・休業日",
+  "daysOff.skip": "祝日・休業日には候補を作らない（自動提案も対象）",
+  "daysOff.namePlaceholder": "年末年始",
+  "daysOff.yearly": "毎年",
+  "daysOff.defaultName": "休業日",
+  "daysOff.add": "＋会社の休業日を追加",
+  "daysOff.warning": "祝日・休業日の候補があります：{list}",
+
+  "ics.title": "予定の取り込み（.ics）",
+  "ics.events": "（{n}件）",
+  "ics.loadFailed": "{name} を読み込めませんでした",
+  "ics.imported": "{n}件の予定を取り込みました",
+  "ics.conflict": "予定と重なる候補：",
+  "ics.warn": "警告して登録",
+  "ics.block": "登録しない",
+
+  "list.title": "候補一覧（テキスト）",
+  "list.edit": "候補の編集",
+  "list.duration": "会議の長さ",
+  "list.wholeSlot": "枠そのもの",
+  "list.windowStyle": "枠が長いときの書き方",
+  "list.within": "13:00〜17:00の間で1時間",
+  "list.starts": "13:00 / 14:00 / 15:00 / 16:00",
+  "list.slotDuration": "この枠の会議の長さ",
+  "list.durationDefault": "既定",
+
+  "share.title": "相手に選んでもらうリンク・返信から確定",
+  "share.myName": "表示名",
+  "share.myNamePlaceholder": "例：山田（○○株式会社）",
+  "share.hint": "リンクに候補と表示名が入っています（サーバーには送られません）。相手が選ぶと返信コード付きの返信文ができます。",
+  "share.replyPlaceholder": "相手からの返信を貼り付け（返信コード、または「9月26日の14時からでお願いします」のような文章）",
+  "share.applyReply": "返信を反映して確定",
+  "share.noCode": "返信コードが見つかりませんでした（例：AM-250925-1300）",
+  "share.noneFit": "どの候補も都合が合わないとの返信です。候補を見直して送り直してください。",
+  "share.notInDraft": "{date} {time} の候補はこの案件にありません。案件を確認してください。",
+  "reply.matches": "返信の日時に合う候補：",
+  "reply.noMatch": "返信の文章から、候補に合う日時が見つかりませんでした。",
+  "reply.within": "（候補 {range} の中）",
+  "reply.confirm": "この日時で確定",
+  "reply.confirmed": "{date} {range} で確定しました。確定連絡のテンプレに切り替えました",
+
+  "to.pickContact": "（連絡先から選ぶ）",
+  "to.register": "登録",
+  "to.registerTitle": "今の宛先を連絡先に登録",
+  "to.company": "会社名",
+  "to.name": "宛先名（例：○○様）",
+  "to.honorific": "敬称",
+  "to.reset": "初期化",
+  "to.resetTitle": "全テンプレを初期化",
+  "to.myTz": "自分のタイムゾーン",
+  "to.recipientTz": "相手のタイムゾーン（併記）",
+  "to.noRecipientTz": "併記しない",
+  "to.confirmReset": "宛先名と全テンプレを初期状態に戻します。追加したテンプレや履歴も消えます。よろしいですか？",
+  "to.resetDone": "宛先名とテンプレを初期化しました",
+
+  "output.locale": "文面の言語",
+  "output.timeFormat": "時刻の表記",
+  "output.timeAuto": "言語に合わせる",
+  "output.time24": "24時間（13:00）",
+  "output.time12": "12時間（1:00 PM）",
+
+  "tpl.filter": "分類で絞り込み",
+  "tpl.all": "すべて",
+  "tpl.duplicate": "複製",
+  "tpl.moveLeft": "前へ",
+  "tpl.moveRight": "後ろへ",
+  "tpl.export": "書き出し",
+  "tpl.import": "読み込み",
+  "tpl.addDefaults": "＋この言語の初期テンプレ",
+  "tpl.addDefaultsTitle": "文面の言語の初期テンプレを追加",
+  "tpl.defaultsAdded": "{n}件の初期テンプレを追加しました",
+  "tpl.newName": "新しいテンプレ",
+  "tpl.name": "テンプレ名（タブ表示用）",
+  "tpl.subject": "件名",
+  "tpl.subjectPlaceholder": "例：{{会社名}} 様 お打ち合わせ日程のご相談",
+  "tpl.subjectError": "件名：{message}",
+  "tpl.category": "分類",
+  "tpl.categoryPlaceholder": "例：新規 / 既存顧客 / 採用",
+  "tpl.vars": "差し込み変数（{{変数名}} で使用）",
+  "tpl.addVar": "＋変数を追加",
+  "tpl.varName": "会場",
+  "tpl.varValue": "値",
+  "tpl.datePattern": "日付の書式（YYYY/M/MMM/D/ddd）",
+  "tpl.bullet": "行頭記号（{n} で連番）",
+  "tpl.separator": "時間帯の区切り",
+  "tpl.layout": "並べ方",
+  "tpl.byDay": "日ごとにまとめる",
+  "tpl.perSlot": "1枠1行",
+  "tpl.buffer": "前後の余白（移動時間など。文面には出さない）",
+  "tpl.bufferBefore": "前",
+  "tpl.bufferAfter": "後",
+  "tpl.body": "テンプレ本文（{{宛先名}} / {{候補一覧}} / {{確定日時}} / 変数 / {{#if 変数}}…{{else}}…{{/if}}）",
+  "tpl.errorLine": "{line}行目：{message}",
+  "tpl.error.unknownVar": "未定義の差し込み {{{name}}}",
+  "tpl.error.badCond": "条件の書き方が不正です {{{body}}}",
+  "tpl.error.strayElse": "対応する {{#if}} のない {{else}} です",
+  "tpl.error.strayClose": "対応する {{#{tag}}} のない {{/{tag}}} です",
+  "tpl.error.mismatch": "{{#{open}}}（{openLine}行目）を {{/{close}}} で閉じています",
+  "tpl.error.badTag": "不正なタグ {tag}",
+  "tpl.error.unclosed": "{{#{tag}}} が閉じられていません（{{/{tag}}} がありません）",
+  "tpl.copyName": "{name}（コピー）",
+  "tpl.importError.notTemplates": "テンプレのファイルではありません",
+  "tpl.importError.noContent": "{n}件目：本文（content）がありません",
+  "tpl.clear": "このテンプレを空にする",
+  "tpl.confirmClear": "このテンプレの本文を空にします。よろしいですか？（履歴から復元できます）",
+  "tpl.cleared": "本文を空にしました",
+  "tpl.confirmDelete": "テンプレ「{name}」を削除します。よろしいですか？",
+  "tpl.deleted": "テンプレ「{name}」を削除しました",
+  "tpl.confirmRestore": "{at} の版に戻します。よろしいですか？",
+  "tpl.confirmImport": "{n}件のテンプレを読み込みます。\nOK：今のテンプレを置き換える／キャンセル：追加・同じIDは上書き",
+  "tpl.history": "版の履歴（{n}）",
+  "tpl.emptyRevision": "（空）",
+  "tpl.restore": "復元",
+
+  "output.title": "出力",
+  "output.holdSummary": "【仮】{name}（{tpl}）",
+  "output.holdDefault": "候補",
+  "output.noName": "（宛先名）",
+  "output.holds": "仮押さえ(.ics)",
+  "output.holdsTitle": "候補を仮押さえ（TENTATIVE）の予定として書き出し",
+  "output.format": "出力の形式",
+  "output.formatText": "テキスト",
+  "output.formatHtml": "HTML（リッチテキスト）",
+  "output.formatMarkdown": "Markdown",
+  "output.formatSlack": "Slack",
+  "output.mail": "メールで開く",
+  "output.mailTitle": "件名と本文（テキスト）を入れてメールアプリを開く",
+  "output.share": "共有…",
+  "output.shareTitle": "端末の共有メニューで送る（メッセージアプリなど）",
+  "output.shareFailed": "共有できませんでした：{message}",
+
+  "copy.previewTitle": "自動でコピーできませんでした。下の内容を選択してコピーしてください",
+  "copy.close": "閉じる",
+
+  "backup.title": "バックアップ・復元",
+  "backup.hint": "すべての UID のデータ（候補・テンプレ・連絡先・案件・設定）を1つのファイルに書き出します。",
+  "backup.export": "バックアップを書き出し",
+  "backup.import": "バックアップから復元",
+  "backup.exportedAt": "書き出し日時：{at}／",
+  "backup.summary": "追加 {added}・変更 {changed}・バックアップにない {removed}・同じ {same}",
+  "backup.added": "追加",
+  "backup.changed": "変更",
+  "backup.removed": "なし",
+  "backup.noDiff": "（違いはありません）",
+  "backup.value.count": "{n}件",
+  "backup.value.none": "なし",
+  "backup.value.settings": "設定",
+  "backup.error.notBackup": "アポイント文作成のバックアップではありません",
+  "backup.error.badVersion": "版数が不正です",
+  "backup.error.newer": "新しい版（{version}）のバックアップです。アプリを更新してください",
+  "backup.error.noData": "data がありません",
+  "backup.error.unknownKey": "不明なキーがあります：{key}",
+  "backup.cancel": "やめる",
+  "backup.merge": "マージ",
+  "backup.replace": "置き換え",
+  "backup.confirmReplace": "今の保存内容（すべての UID）をバックアップで置き換えます。よろしいですか？",
+  "backup.confirmMerge": "バックアップにしかない内容を今の保存内容に追加します。よろしいですか？",
+  "sync.title": "端末間の同期",
+  "sync.hint": "同じ UID のデータ（表示中の年月などを除く）を同期サーバー経由でほかの端末と共有します。サーバーは npm run sync-server で立てられます。同じブラウザのタブどうしは自動で同期します。",
+  "sync.url": "サーバーの URL",
+  "sync.token": "トークン（任意）",
+  "sync.enabled": "自動で同期する",
+  "sync.now": "今すぐ同期",
+  "sync.syncing": "同期中…",
+  "sync.lastAt": "最終同期：{at}",
+  "sync.never": "まだ同期していません",
+  "sync.error": "同期できませんでした：{message}",
+  "sync.error.badResponse": "同期サーバーの応答が不正です（{status}）",
+  "sync.error.busy": "同期が混み合っています。しばらくしてからもう一度お試しください",
+
+  "picker.title": "日程のご確認",
+  "picker.lead": "{sender} さんから日程候補が届いています。ご都合のよい日時を1つお選びください。",
+  "picker.defaultSender": "ご担当者",
+  "picker.none": "どれも都合が合わない",
+  "picker.replyLabel": "返信文（コピーしてメール等でお送りください）",
+  "picker.copied": "コピーしました",
+  "picker.copy": "返信文をコピー",
+  "picker.replyPick": "{sender}様\n\n以下の日程でお願いいたします。\n{slot}\n\n[返信コード：{code}]",
+  "picker.replyNone":
+    "{sender}様\n\nご提示いただいた日程はいずれも都合が合いませんでした。\n恐れ入りますが、別の候補をいただけますと幸いです。\n\n[返信コード：{code}]",
+};
+
+export type MsgKey = keyof typeof ja;
+
+const en: Record<MsgKey, string> = {
+  "app.title": "Appointment Writer",
+  "app.undo": "Undo (Ctrl+Z)",
+  "app.redo": "Redo (Ctrl+Shift+Z)",
+  "app.newerSchema": "This data was saved by a newer version of the app. To protect it, changes on this page are not saved.",
+  "app.uiLocale": "Language",
+  "app.updateReady": "A new version is available.",
+  "app.update": "Update",
+  "app.install": "Add to home screen",
+  "app.installTitle": "Install it as an app so it opens offline too",
+  "app.iosInstall": "To add it to your home screen, tap the Share button (□↑) and choose \"Add to Home Screen\".",
+  "app.dismiss": "Dismiss",
+
+  "common.delete": "Delete",
+  "common.add": "+ Add",
+  "common.copy": "Copy",
+  "common.untitled": "Untitled",
+  "common.noCandidates": "(no times yet)",
+  "common.confirmed": "Confirmed",
+  "common.busy": "Busy",
+  "common.copied": "Copied!",
+  "common.copyFallback": "Could not copy automatically. Select the text and copy it",
+  "common.loadFailed": "Could not load the file: {message}",
+  "common.undo": "Undo",
+  "common.minutes": "{n} min",
+  "common.notJson": "The file is not valid JSON",
+
+  "fmt.md": "MMM D",
+  "fmt.mdw": "ddd, MMM D",
+  "fmt.short": "M/D",
+  "fmt.shortW": "ddd M/D",
+  "fmt.yearMonth": "MMM YYYY",
+  "fmt.listSep": ", ",
+
+  "status.draft": "Draft",
+  "status.sent": "Sent",
+  "status.confirmed": "Confirmed",
+  "status.cancelled": "Cancelled",
+
+  "draft.defaultName": "Case {n}",
+  "draft.namePrompt": "Case name",
+  "draft.option": "{name} ({status}, {n} slots)",
+  "draft.new": "+ New case",
+  "draft.rename": "Rename",
+  "draft.confirmDelete": "Delete the case \"{name}\"? Its time slots will be deleted too.",
+  "draft.notes": "Notes",
+  "draft.notesPlaceholder": "Text shared into the app, or notes on the conversation",
+  "draft.fromShare": "Created the case \"{name}\" from the shared text",
+
+  "slot.offDay": "Not added: {name}",
+  "slot.busyBlocked": "Not added because it overlaps an event ({label})",
+  "slot.busyWarn": "Overlaps an event ({label})",
+  "slot.heldWarn": "Overlaps {range} held by \"{draft}\"",
+  "slot.bufferBusyBlocked": "Not added because its buffer overlaps an event ({label})",
+  "slot.bufferBusyWarn": "Its buffer overlaps an event ({label})",
+  "slot.bufferHeldWarn": "Its buffer overlaps {range} held by \"{draft}\"",
+  "slot.merged": "Merged with the adjacent slot",
+  "slot.removed": "Deleted {range}",
+  "slot.moved": "Moved to {date}",
+  "slot.copied": "Copied to {date}",
+  "slot.label": "{date} {range} slot",
+  "slot.labelConfirmed": "{date} {range} slot (confirmed)",
+  "slot.free": "{date} {time} free",
+  "slot.startHandle": "Start time of {label}",
+  "slot.endHandle": "End time of {label}",
+  "slot.deleteLabel": "Delete {label}",
+  "slot.held": "Held: {name}",
+  "slotFile.noList": "No list of slots found",
+  "slotFile.noDate": "Item {n}: no date (YYYY-MM-DD)",
+  "slotFile.badRange": "Item {n}: invalid time range",
+  "slotFile.badTime": "Cannot read the time: {value}",
+
+  "calendar.cellCount": ", {n} slots",
+
+  "track.dayTitle": "Times on {date}",
+  "track.weekTitle": "Times this week",
+  "track.layoutDay": "Month + day",
+  "track.layoutWeek": "Week",
+  "track.weekdays": "Weekdays",
+  "track.sevenDays": "7 days",
+  "track.dropTitle": "When a slot is dropped on a calendar date (Ctrl/Alt for the opposite)",
+  "track.dropLabel": "Drop on date",
+  "track.dropMove": "Move",
+  "track.dropCopy": "Copy",
+  "track.step": "Step",
+  "track.minSlot": "Minimum length",
+  "track.role": "time track",
+  "track.aria":
+    "Time track. Up/Down moves by 15 minutes, Left/Right changes the date. Enter creates a slot, Shift+Up/Down changes the end time, Shift+Alt+Up/Down changes the start time, Delete removes it",
+
+  "bulk.title": "Type in slots",
+  "bulk.placeholder": "One per line, e.g.\n9/25 13-15\n9/26 午前\n来週火曜 10:00〜11:30\n毎週水曜 15時 4週分",
+  "bulk.hint": "Lines with only a start time use the meeting length (1 hour if unset). 毎週 (weekly) repeats 4 times unless a count is given.",
+  "bulk.line": "Line {n}:",
+  "bulk.add": "Add {n}",
+  "bulk.added": "Added {n} slots",
+  "bulk.error.unknown": "Could not read a date or time",
+  "bulk.error.noDate": "No date (such as 9/25 or 来週火曜)",
+  "bulk.error.badDate": "That date does not exist",
+  "bulk.error.past": "That date has passed",
+  "bulk.error.wrongWeekday": "The date and the weekday do not match",
+  "bulk.error.noTime": "No time (such as 13-15, 10:00〜11:30 or 午前)",
+  "bulk.error.badTime": "The time runs past midnight",
+
+  "suggest.title": "Suggest times",
+  "suggest.from": "From",
+  "suggest.to": "To",
+  "suggest.workHours": "Working hours",
+  "suggest.lunch": "Lunch break",
+  "suggest.duration": "Meeting length",
+  "suggest.lead": "Hours from now",
+  "suggest.perDay": "Max per day",
+  "suggest.count": "Count",
+  "suggest.spread": "Spread across days",
+  "suggest.run": "Suggest and add",
+  "suggest.hint": "Picks times that do not overlap imported events or existing slots.",
+  "suggest.badRange": "The date range is invalid",
+  "suggest.none": "No free time matched the conditions",
+  "suggest.added": "Added {n} slots",
+
+  "group.title": "Group availability ({n})",
+  "group.hint": "Overlays the slots (free times) of the people you pick and finds when everyone is free. The time track and calendar are shaded by how many people are free.",
+  "group.uids": "UIDs on this device (their current slots)",
+  "group.thisUid": "(this UID)",
+  "group.slots": "{n} slots",
+  "group.importFile": "Import a colleague's slot file",
+  "group.exportMine": "Export my slots",
+  "group.minLength": "Minimum length",
+  "group.show": "Show on the track and calendar",
+  "group.common": "Everyone is free: {n}",
+  "group.add": "Add {n} as slots",
+  "group.added": "Added {n} times when everyone is free",
+  "group.noneAdded": "Nothing could be added (days off, busy times, etc.)",
+  "group.heat": "{n} of {total} free",
+  "group.cellCommon": ", everyone free for {time}",
+
+  "contacts.title": "Contacts ({n})",
+  "contacts.newName": "New contact",
+  "contacts.exportCsv": "Export CSV",
+  "contacts.importCsv": "Import CSV",
+  "contacts.name": "Name",
+  "contacts.honorific": "Honorific",
+  "contacts.company": "Company",
+  "contacts.noTemplate": "(no template)",
+  "contacts.noTimeZone": "(no time zone)",
+  "contacts.notes": "Notes",
+  "contacts.apply": "Use as recipient",
+  "contacts.history": "Proposals ({n})",
+  "contacts.historyEmpty": "(recorded when you copy)",
+  "contacts.historyItem": "{at} / {tpl} / {n} slots",
+  "contacts.hint": "Pick a contact in the recipient field to edit it and see its history.",
+  "contacts.confirmDelete": "Delete the contact \"{name}\"? Its proposal history will be deleted too.",
+  "contacts.imported": "Imported {n} contacts",
+  "contacts.error.empty": "The CSV file is empty",
+
+  "daysOff.title": "Holidays and closures",
+  "daysOff.skip": "Do not create slots on holidays or closures (also applies to suggestions)",
+  "daysOff.namePlaceholder": "Year-end break",
+  "daysOff.yearly": "Yearly",
+  "daysOff.defaultName": "Closed",
+  "daysOff.add": "+ Add a company closure",
+  "daysOff.warning": "Some slots fall on holidays or closures: {list}",
+
+  "ics.title": "Import events (.ics)",
+  "ics.events": "({n} events)",
+  "ics.loadFailed": "Could not read {name}",
+  "ics.imported": "Imported {n} events",
+  "ics.conflict": "Slots that overlap events:",
+  "ics.warn": "Warn and add",
+  "ics.block": "Do not add",
+
+  "list.title": "Candidate list (text)",
+  "list.edit": "Edit slots",
+  "list.duration": "Meeting length",
+  "list.wholeSlot": "Whole slot",
+  "list.windowStyle": "When a slot is longer",
+  "list.within": "1 hour within 1:00–5:00 PM",
+  "list.starts": "1:00 PM / 2:00 PM / 3:00 PM / 4:00 PM",
+  "list.slotDuration": "Meeting length for this slot",
+  "list.durationDefault": "Default",
+
+  "share.title": "Let the recipient pick, confirm from the reply",
+  "share.myName": "Display name",
+  "share.myNamePlaceholder": "e.g. Taro Yamada (Example Inc.)",
+  "share.hint": "The link contains the slots and your display name (nothing is sent to a server). When the recipient picks one, they get a reply with a reply code.",
+  "share.replyPlaceholder": "Paste the reply (a reply code, or Japanese text such as 「9月26日の14時からでお願いします」)",
+  "share.applyReply": "Apply reply and confirm",
+  "share.noCode": "No reply code found (e.g. AM-250925-1300)",
+  "share.noneFit": "The reply says none of the times work. Review the slots and send new ones.",
+  "share.notInDraft": "{date} {time} is not a slot in this case. Check the case.",
+  "reply.matches": "Slots matching the reply:",
+  "reply.noMatch": "Could not find a date and time in the reply that matches a slot.",
+  "reply.within": "(within {range})",
+  "reply.confirm": "Confirm this time",
+  "reply.confirmed": "Confirmed {date} {range}. Switched to the confirmation template",
+
+  "to.pickContact": "(pick a contact)",
+  "to.register": "Save",
+  "to.registerTitle": "Save the current recipient as a contact",
+  "to.company": "Company",
+  "to.name": "Recipient name",
+  "to.honorific": "Title",
+  "to.reset": "Reset",
+  "to.resetTitle": "Reset all templates",
+  "to.myTz": "My time zone",
+  "to.recipientTz": "Recipient's time zone (shown too)",
+  "to.noRecipientTz": "Don't show",
+  "to.confirmReset": "Reset the recipient and all templates? Added templates and their history will be deleted.",
+  "to.resetDone": "Reset the recipient and templates",
+
+  "output.locale": "Message language",
+  "output.timeFormat": "Time format",
+  "output.timeAuto": "Match language",
+  "output.time24": "24-hour (13:00)",
+  "output.time12": "12-hour (1:00 PM)",
+
+  "tpl.filter": "Filter by category",
+  "tpl.all": "All",
+  "tpl.duplicate": "Duplicate",
+  "tpl.moveLeft": "Move left",
+  "tpl.moveRight": "Move right",
+  "tpl.export": "Export",
+  "tpl.import": "Import",
+  "tpl.addDefaults": "+ Defaults for this language",
+  "tpl.addDefaultsTitle": "Add the default templates for the message language",
+  "tpl.defaultsAdded": "Added {n} default templates",
+  "tpl.newName": "New template",
+  "tpl.name": "Template name (shown on the tab)",
+  "tpl.subject": "Subject",
+  "tpl.subjectPlaceholder": "e.g. Meeting with {{company}}",
+  "tpl.subjectError": "Subject: {message}",
+  "tpl.category": "Category",
+  "tpl.categoryPlaceholder": "e.g. New / Existing clients / Hiring",
+  "tpl.vars": "Variables (use as {{name}})",
+  "tpl.addVar": "+ Add variable",
+  "tpl.varName": "venue",
+  "tpl.varValue": "Value",
+  "tpl.datePattern": "Date format (YYYY/M/MMM/D/ddd)",
+  "tpl.bullet": "Bullet ({n} for numbers)",
+  "tpl.separator": "Time separator",
+  "tpl.layout": "Layout",
+  "tpl.byDay": "Group by day",
+  "tpl.perSlot": "One slot per line",
+  "tpl.buffer": "Buffer before/after (travel time etc.; not shown in the text)",
+  "tpl.bufferBefore": "Before",
+  "tpl.bufferAfter": "After",
+  "tpl.body": "Template ({{name}} / {{candidates}} / {{confirmed}} / variables / {{#if var}}…{{else}}…{{/if}})",
+  "tpl.errorLine": "Line {line}: {message}",
+  "tpl.error.unknownVar": "Unknown placeholder {{{name}}}",
+  "tpl.error.badCond": "Invalid condition {{{body}}}",
+  "tpl.error.strayElse": "{{else}} without a matching {{#if}}",
+  "tpl.error.strayClose": "{{/{tag}}} without a matching {{#{tag}}}",
+  "tpl.error.mismatch": "{{#{open}}} (line {openLine}) is closed with {{/{close}}}",
+  "tpl.error.badTag": "Invalid tag {tag}",
+  "tpl.error.unclosed": "{{#{tag}}} is never closed (missing {{/{tag}}})",
+  "tpl.copyName": "{name} (copy)",
+  "tpl.importError.notTemplates": "This is not a template file",
+  "tpl.importError.noContent": "Item {n}: no content",
+  "tpl.clear": "Clear this template",
+  "tpl.confirmClear": "Clear the text of this template? (You can restore it from the history.)",
+  "tpl.cleared": "Cleared the template text",
+  "tpl.confirmDelete": "Delete the template \"{name}\"?",
+  "tpl.deleted": "Deleted the template \"{name}\"",
+  "tpl.confirmRestore": "Restore the version from {at}?",
+  "tpl.confirmImport": "Import {n} templates.\nOK: replace the current templates / Cancel: add them (same IDs are overwritten)",
+  "tpl.history": "Versions ({n})",
+  "tpl.emptyRevision": "(empty)",
+  "tpl.restore": "Restore",
+
+  "output.title": "Output",
+  "output.holdSummary": "[Hold] {name} ({tpl})",
+  "output.holdDefault": "Proposed",
+  "output.noName": "(recipient)",
+  "output.holds": "Holds (.ics)",
+  "output.holdsTitle": "Export the slots as tentative events",
+  "output.format": "Output format",
+  "output.formatText": "Text",
+  "output.formatHtml": "HTML (rich text)",
+  "output.formatMarkdown": "Markdown",
+  "output.formatSlack": "Slack",
+  "output.mail": "Open in email",
+  "output.mailTitle": "Open your email app with the subject and the text body filled in",
+  "output.share": "Share…",
+  "output.shareTitle": "Send it through your device's share sheet (messaging apps etc.)",
+  "output.shareFailed": "Could not share: {message}",
+
+  "copy.previewTitle": "Could not copy automatically. Select the text below and copy it",
+  "copy.close": "Close",
+
+  "backup.title": "Backup and restore",
+  "backup.hint": "Exports the data of every UID (slots, templates, contacts, cases, settings) to one file.",
+  "backup.export": "Export backup",
+  "backup.import": "Restore from backup",
+  "backup.exportedAt": "Exported {at} / ",
+  "backup.summary": "Added {added} · Changed {changed} · Not in backup {removed} · Same {same}",
+  "backup.added": "Added",
+  "backup.changed": "Changed",
+  "backup.removed": "Missing",
+  "backup.noDiff": "(no differences)",
+  "backup.value.count": "{n} items",
+  "backup.value.none": "none",
+  "backup.value.settings": "settings",
+  "backup.error.notBackup": "This is not a backup from this app",
+  "backup.error.badVersion": "The schema version is invalid",
+  "backup.error.newer": "This backup is from a newer version ({version}). Please update the app",
+  "backup.error.noData": "The backup has no data",
+  "backup.error.unknownKey": "Unknown key: {key}",
+  "backup.cancel": "Cancel",
+  "backup.merge": "Merge",
+  "backup.replace": "Replace",
+  "backup.confirmReplace": "Replace everything saved here (all UIDs) with the backup?",
+  "backup.confirmMerge": "Add what is only in the backup to the data saved here?",
+  "sync.title": "Sync across devices",
+  "sync.hint": "Shares this UID's data (except view state such as the month shown) with your other devices through a sync server. Run one with npm run sync-server. Tabs in the same browser stay in sync automatically.",
+  "sync.url": "Server URL",
+  "sync.token": "Token (optional)",
+  "sync.enabled": "Sync automatically",
+  "sync.now": "Sync now",
+  "sync.syncing": "Syncing…",
+  "sync.lastAt": "Last synced: {at}",
+  "sync.never": "Not synced yet",
+  "sync.error": "Could not sync: {message}",
+  "sync.error.badResponse": "Unexpected response from the sync server ({status})",
+  "sync.error.busy": "The sync server is busy. Please try again in a moment",
+
+  "picker.title": "Pick a time",
+  "picker.lead": "{sender} has sent you some times. Please pick the one that suits you best.",
+  "picker.defaultSender": "The sender",
+  "picker.none": "None of these work",
+  "picker.replyLabel": "Reply (copy it and send it by email or chat)",
+  "picker.copied": "Copied",
+  "picker.copy": "Copy reply",
+  "picker.replyPick": "Hi {sender},\n\nThe following time works for me:\n{slot}\n\n[Reply code: {code}]",
+  "picker.replyNone":
+    "Hi {sender},\n\nUnfortunately none of the proposed times work for me.\nCould you suggest some other options?\n\n[Reply code: {code}]",
+};
+
+const MESSAGES: Record<Locale, Record<MsgKey, string>> = { ja, en };
+
+export type Translate = (key: MsgKey, params?: Record<string, string | number>) => string;
+
+/** 言語を固定した文言関数（未知の差し込みはそのまま残す） */
+export const makeT =
+  (locale: Locale): Translate =>
+  (key, params) => {
+    const msg = MESSAGES[locale][key];
+    return params ? msg.replace(/\{(\w+)\}/g, (m, name) => (name in params ? String(params[name]) : m)) : msg;
+  };
+
+/** 文言のキーで投げるエラー（画面では errorText で表示言語に直す。message は日本語） */
+export class AppError extends Error {
+  constructor(
+    readonly key: MsgKey,
+    readonly params: Record<string, string | number> = {}
+  ) {
+    super(makeT("ja")(key, params));
+    this.name = "AppError";
+  }
+}
+
+export const errorText = (err: unknown, t: Translate) =>
+  err instanceof AppError ? t(err.key, err.params) : (err as Error).message;
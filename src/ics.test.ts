@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { busyRangesByDate, expandCalendars, expandEvent, type HoldExports, holdEvents, parseIcs, type BusyCalendar } from "./ics";
+
+const TZ = "Asia/Tokyo";
+
+const ics = (...events: string[][]) =>
+  ["BEGIN:VCALENDAR", ...events.flatMap((e) => ["BEGIN:VEVENT", ...e, "END:VEVENT"]), "END:VCALENDAR"].join("\r\n");
+
+// 展開した開始時刻を東京の "YYYY-MM-DD HH:MM" で
+const starts = (occs: { startMs: number }[]) =>
+  occs.map((o) => new Date(o.startMs + 9 * 3600_000).toISOString().slice(0, 16).replace("T", " "));
+
+const RANGE = [Date.UTC(2025, 8, 1), Date.UTC(2025, 11, 31)] as const;
+
+const calendar = (text: string): BusyCalendar => ({
+  id: "c1",
+  name: "test",
+  importedAt: "2025-09-01T00:00:00Z",
+  enabled: true,
+  events: parseIcs(text),
+});
+
+describe("繰り返しの展開", () => {
+  it("BYDAY に合わない DTSTART も最初の発生として COUNT に数える", () => {
+    // 2025-09-23 は火曜
+    const [ev] = parseIcs(
+      ics(["UID:a", "DTSTART;TZID=Asia/Tokyo:20250923T100000", "DTEND;TZID=Asia/Tokyo:20250923T110000", "RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=2"])
+    );
+    expect(starts(expandEvent(ev, ...RANGE))).toEqual(["2025-09-23 10:00", "2025-09-29 10:00"]);
+  });
+
+  it("毎週・隔週と UNTIL", () => {
+    const [ev] = parseIcs(
+      ics(["UID:b", "DTSTART:20250901T010000Z", "DURATION:PT1H", "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250918T000000Z"])
+    );
+    expect(starts(expandEvent(ev, ...RANGE))).toEqual(["2025-09-01 10:00", "2025-09-03 10:00", "2025-09-15 10:00", "2025-09-17 10:00"]);
+  });
+
+  it("毎月の第2火曜と最終金曜", () => {
+    const [ev] = parseIcs(ics(["UID:c", "DTSTART;TZID=Asia/Tokyo:20250909T150000", "RRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR;COUNT=4"]));
+    expect(starts(expandEvent(ev, ...RANGE))).toEqual(["2025-09-09 15:00", "2025-09-26 15:00", "2025-10-14 15:00", "2025-10-31 15:00"]);
+  });
+
+  it("EXDATE の日は除く", () => {
+    const [ev] = parseIcs(
+      ics([
+        "UID:d",
+        "DTSTART;TZID=Asia/Tokyo:20250901T090000",
+        "DURATION:PT1H",
+        "RRULE:FREQ=DAILY;COUNT=4",
+        "EXDATE;TZID=Asia/Tokyo:20250902T090000,20250903T090000",
+      ])
+    );
+    expect(starts(expandEvent(ev, ...RANGE))).toEqual(["2025-09-01 09:00", "2025-09-04 09:00"]);
+  });
+
+  it("RECURRENCE-ID の上書きは元の回と置き換わる", () => {
+    const cal = calendar(
+      ics(
+        ["UID:e", "DTSTART;TZID=Asia/Tokyo:20250901T090000", "DURATION:PT30M", "RRULE:FREQ=DAILY;COUNT=3", "SUMMARY:朝会"],
+        ["UID:e", "RECURRENCE-ID;TZID=Asia/Tokyo:20250902T090000", "DTSTART;TZID=Asia/Tokyo:20250902T130000", "DURATION:PT30M", "SUMMARY:朝会（変更）"]
+      )
+    );
+    const occs = expandCalendars([cal], ...RANGE);
+    expect(starts(occs)).toEqual(["2025-09-01 09:00", "2025-09-02 13:00", "2025-09-03 09:00"]);
+    expect(occs[1].summary).toBe("朝会（変更）");
+  });
+});
+
+describe("タイムゾーンと終日", () => {
+  it("TZID の壁時計をそのゾーンで読む（接頭辞付きも）", () => {
+    const [ev] = parseIcs(ics(["UID:f", "DTSTART;TZID=/mozilla.org/20070129_1/America/New_York:20250910T090000", "DURATION:PT1H"]));
+    expect(ev.start.tz).toBe("America/New_York");
+    // 夏時間（UTC-4）の 9:00 は東京の 22:00
+    expect(starts(expandEvent(ev, ...RANGE))).toEqual(["2025-09-10 22:00"]);
+  });
+
+  it("繰り返しは DST をまたいでも壁時計の時刻のまま", () => {
+    const [ev] = parseIcs(ics(["UID:g", "DTSTART;TZID=America/New_York:20251027T090000", "RRULE:FREQ=WEEKLY;COUNT=2"]));
+    expect(starts(expandEvent(ev, ...RANGE))).toEqual(["2025-10-27 22:00", "2025-11-03 23:00"]);
+  });
+
+  it("終日の予定は floatingTz の1日を丸ごと埋める", () => {
+    const cal = calendar(ics(["UID:h", "DTSTART;VALUE=DATE:20250915", "DTEND;VALUE=DATE:20250917", "SUMMARY:出張"]));
+    const occs = expandCalendars([cal], ...RANGE, TZ);
+    expect(occs[0].allDay).toBe(true);
+    expect(busyRangesByDate(occs, TZ)).toEqual({
+      "2025-09-15": [{ start: 0, end: 1440, summary: "出張" }],
+      "2025-09-16": [{ start: 0, end: 1440, summary: "出張" }],
+    });
+  });
+
+  it("キャンセル済み・空き時間扱いの予定は読まない", () => {
+    expect(
+      parseIcs(ics(["UID:i", "DTSTART:20250901T000000Z", "STATUS:CANCELLED"], ["UID:j", "DTSTART:20250901T000000Z", "TRANSP:TRANSPARENT"]))
+    ).toEqual([]);
+  });
+});
+
+describe("仮押さえの書き出し", () => {
+  const h = (id: string, hour: number) => ({ id, startMs: Date.UTC(2025, 8, 25, hour), endMs: Date.UTC(2025, 8, 25, hour + 1) });
+  const summary = (events: { uid: string; sequence: number; cancelled?: boolean }[]) =>
+    events.map((e) => [e.uid.replace("@appoint-maker", ""), e.sequence, !!e.cancelled]);
+
+  it("ほかの案件から書き出しても、前の案件の仮押さえは取り消さない", () => {
+    let exports: HoldExports = {};
+    const exportDraft = (draftId: string, holds: ReturnType<typeof h>[], title = "仮押さえ") => {
+      const { events, next } = holdEvents(exports[draftId] ?? {}, holds, title);
+      exports = { ...exports, [draftId]: next };
+      return summary(events);
+    };
+
+    expect(exportDraft("A", [h("a1", 1), h("a2", 2)])).toEqual([
+      ["a1", 0, false],
+      ["a2", 0, false],
+    ]);
+    expect(exportDraft("B", [h("b1", 3)])).toEqual([["b1", 0, false]]);
+    // A に戻って a2 を消し a1 を動かす：消えた a2 だけ取り消し、動かした a1 は版を上げる
+    expect(exportDraft("A", [{ ...h("a1", 4), id: "a1" }])).toEqual([
+      ["a1", 1, false],
+      ["a2", 1, true],
+    ]);
+    expect(exportDraft("B", [h("b1", 3)])).toEqual([["b1", 0, false]]);
+  });
+
+  it("件名が変われば版を上げ、同じなら据え置く", () => {
+    const first = holdEvents({}, [h("x", 1)], "A社");
+    expect(summary(holdEvents(first.next, [h("x", 1)], "A社").events)).toEqual([["x", 0, false]]);
+    expect(summary(holdEvents(first.next, [h("x", 1)], "B社").events)).toEqual([["x", 1, false]]);
+  });
+});
@@ -0,0 +1,522 @@
+import { isValidTimeZone, wallClockIn, wallTimeToEpoch } from "./tz";
+
+/** ====== 型 ====== */
+export type IcsTime = {
+  y: number;
+  mo: number; // 1..12
+  d: number;
+  h: number;
+  mi: number;
+  s: number;
+  allDay: boolean;   // VALUE=DATE（終日）
+  tz: string | null; // "UTC" | IANA名 | null（フローティング＝端末ローカル）
+};
+
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  start: IcsTime;
+  durationMs: number;
+  rrule?: string;
+  exdates: number[];      // エポックms
+  rdates: number[];       // エポックms
+  recurrenceId?: number;  // 繰り返しの個別上書き（元の開始エポックms）
+};
+
+// 取り込んだ .ics 1ファイル分
+export type BusyCalendar = {
+  id: string;
+  name: string;
+  importedAt: string;
+  enabled: boolean;
+  events: IcsEvent[];
+};
+
+export type BusyOccurrence = {
+  uid: string;
+  summary: string;
+  startMs: number;
+  endMs: number;
+  allDay: boolean;
+};
+
+// 1日の中の予定（分単位・端末ローカル）
+export type BusyRange = { start: number; end: number; summary: string };
+
+/** ====== ユーティリティ ====== */
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 20000; // 繰り返し展開の上限（無限ループ防止）
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+// 暦計算用の通し日番号（UTCで計算しDSTの影響を受けない）
+const dayNum = (y: number, mo: number, d: number) => Math.floor(Date.UTC(y, mo - 1, d) / DAY_MS);
+const fromDayNum = (n: number) => {
+  const dt = new Date(n * DAY_MS);
+  return { y: dt.getUTCFullYear(), mo: dt.getUTCMonth() + 1, d: dt.getUTCDate() };
+};
+const wdMon = (n: number) => (new Date(n * DAY_MS).getUTCDay() + 6) % 7; // 月=0..日=6
+const daysIn = (y: number, mo: number) => new Date(Date.UTC(y, mo, 0)).getUTCDate();
+
+export const icsTimeToEpoch = (t: IcsTime) =>
+  t.tz === "UTC"
+    ? Date.UTC(t.y, t.mo - 1, t.d, t.h, t.mi, t.s)
+    : t.tz
+      ? wallTimeToEpoch(t.tz, t.y, t.mo, t.d, t.h, t.mi, t.s)
+      : new Date(t.y, t.mo - 1, t.d, t.h, t.mi, t.s).getTime();
+
+/** ====== パース ====== */
+type Prop = { name: string; params: Record<string, string>; value: string };
+
+// 折り返し行（行頭スペース/タブ）を連結
+const unfold = (text: string) => text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+function parseLine(line: string): Prop | null {
+  let inQuote = false;
+  let idx = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuote = !inQuote;
+    else if (ch === ":" && !inQuote) {
+      idx = i;
+      break;
+    }
+  }
+  if (idx < 0) return null;
+  const [name, ...rawParams] = line.slice(0, idx).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(idx + 1) };
+}
+
+const unescapeText = (v: string) => v.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+
+function parseIcsTime(value: string, params: Record<string, string>): IcsTime | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const allDay = !m[4];
+  let tz: string | null = null;
+  if (m[7]) tz = "UTC";
+  else if (!allDay && params.TZID) {
+    // "/mozilla.org/.../Asia/Tokyo" のような接頭辞付きにも対応
+    const id = params.TZID.replace(/^\/?(?:[^/]+\/)*?(?=[A-Z][a-z]+\/)/, "");
+    tz = isValidTimeZone(id) ? id : null;
+  }
+  return {
+    y: +m[1],
+    mo: +m[2],
+    d: +m[3],
+    h: allDay ? 0 : +m[4],
+    mi: allDay ? 0 : +m[5],
+    s: allDay ? 0 : +(m[6] || 0),
+    allDay,
+    tz,
+  };
+}
+
+// "PT1H30M" / "P1D" / "-P1W" → ms
+function parseDuration(v: string) {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(v.trim());
+  if (!m) return 0;
+  const sec = (+(m[2] || 0) * 7 + +(m[3] || 0)) * 86400 + +(m[4] || 0) * 3600 + +(m[5] || 0) * 60 + +(m[6] || 0);
+  return (m[1] === "-" ? -sec : sec) * 1000;
+}
+
+// 複数値（カンマ区切り）の日時プロパティ → エポックms
+const parseTimeList = (p: Prop) =>
+  p.value
+    .split(",")
+    .map((v) => parseIcsTime(v, p.params))
+    .filter((t): t is IcsTime => !!t)
+    .map(icsTimeToEpoch);
+
+/** .ics テキスト → VEVENT 一覧（キャンセル済み・「空き時間」扱いの予定は除外） */
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let props: Prop[] | null = null;
+  let nested = 0; // VEVENT 内の VALARM など
+
+  for (const line of unfold(text)) {
+    if (!line.trim()) continue;
+    const p = parseLine(line);
+    if (!p) continue;
+    if (p.name === "BEGIN") {
+      if (p.value.toUpperCase() === "VEVENT" && !props) props = [];
+      else if (props) nested++;
+      continue;
+    }
+    if (p.name === "END") {
+      if (props && nested > 0) nested--;
+      else if (props && p.value.toUpperCase() === "VEVENT") {
+        const ev = buildEvent(props);
+        if (ev) events.push(ev);
+        props = null;
+      }
+      continue;
+    }
+    if (props && nested === 0) props.push(p);
+  }
+  return events;
+}
+
+function buildEvent(props: Prop[]): IcsEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtstart = get("DTSTART");
+  const start = dtstart && parseIcsTime(dtstart.value, dtstart.params);
+  if (!start) return null;
+  if (get("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+  if (get("TRANSP")?.value.toUpperCase() === "TRANSPARENT") return null;
+
+  let durationMs = start.allDay ? DAY_MS : 0;
+  const dtend = get("DTEND");
+  const end = dtend && parseIcsTime(dtend.value, dtend.params);
+  if (end) {
+    durationMs = start.allDay && end.allDay
+      ? (dayNum(end.y, end.mo, end.d) - dayNum(start.y, start.mo, start.d)) * DAY_MS
+      : icsTimeToEpoch(end) - icsTimeToEpoch(start);
+  } else if (get("DURATION")) {
+    durationMs = parseDuration(get("DURATION")!.value);
+  }
+
+  const recur = get("RECURRENCE-ID");
+  const recurTime = recur && parseIcsTime(recur.value, recur.params);
+  return {
+    uid: get("UID")?.value || crypto.randomUUID(),
+    summary: unescapeText(get("SUMMARY")?.value || ""),
+    start,
+    durationMs: Math.max(0, durationMs),
+    rrule: get("RRULE")?.value,
+    exdates: props.filter((p) => p.name === "EXDATE").flatMap(parseTimeList),
+    rdates: props.filter((p) => p.name === "RDATE" && p.params.VALUE !== "PERIOD").flatMap(parseTimeList),
+    recurrenceId: recurTime ? icsTimeToEpoch(recurTime) : undefined,
+  };
+}
+
+/** ====== RRULE 展開 ====== */
+type RRule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay?: { n: number; wd: number }[]; // n=0 は序数なし
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+};
+
+const WEEKDAYS: Record<string, number> = { MO: 0, TU: 1, WE: 2, TH: 3, FR: 4, SA: 5, SU: 6 };
+const nums = (v: string) => v.split(",").map(Number).filter((n) => Number.isFinite(n) && n !== 0);
+
+function parseRRule(s: string): RRule | null {
+  const kv: Record<string, string> = {};
+  for (const part of s.split(";")) {
+    const [k, v] = part.split("=");
+    if (k && v) kv[k.toUpperCase()] = v.toUpperCase();
+  }
+  const freq = kv.FREQ as RRule["freq"];
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+  const rule: RRule = { freq, interval: Math.max(1, Number(kv.INTERVAL) || 1) };
+  if (kv.COUNT) rule.count = Number(kv.COUNT);
+  if (kv.UNTIL) {
+    const t = parseIcsTime(kv.UNTIL, {});
+    // 日付のみの UNTIL はその日の終わりまで含める
+    if (t) rule.until = t.allDay ? new Date(t.y, t.mo - 1, t.d + 1).getTime() - 1 : icsTimeToEpoch(t);
+  }
+  if (kv.BYDAY) {
+    rule.byDay = kv.BYDAY.split(",").flatMap((x) => {
+      const m = /^([+-]?\d+)?(MO|TU|WE|TH|FR|SA|SU)$/.exec(x);
+      return m ? [{ n: Number(m[1] || 0), wd: WEEKDAYS[m[2]] }] : [];
+    });
+  }
+  if (kv.BYMONTHDAY) rule.byMonthDay = nums(kv.BYMONTHDAY);
+  if (kv.BYMONTH) rule.byMonth = nums(kv.BYMONTH);
+  if (kv.BYSETPOS) rule.bySetPos = nums(kv.BYSETPOS);
+  return rule;
+}
+
+// その月で該当する日（通し日番号）
+function monthCandidates(y: number, mo: number, r: RRule, startDay: number): number[] {
+  const n = daysIn(y, mo);
+  let days: number[] = [];
+  if (r.byMonthDay) {
+    days = r.byMonthDay.map((x) => (x > 0 ? x : n + 1 + x)).filter((x) => x >= 1 && x <= n);
+    if (r.byDay) {
+      const wds = new Set(r.byDay.map((b) => b.wd));
+      days = days.filter((d) => wds.has(wdMon(dayNum(y, mo, d))));
+    }
+  } else if (r.byDay) {
+    for (const { n: ord, wd } of r.byDay) {
+      const matches: number[] = [];
+      for (let d = 1; d <= n; d++) if (wdMon(dayNum(y, mo, d)) === wd) matches.push(d);
+      if (ord === 0) days.push(...matches);
+      else {
+        const pick = ord > 0 ? matches[ord - 1] : matches[matches.length + ord];
+        if (pick) days.push(pick);
+      }
+    }
+  } else if (startDay <= n) {
+    days = [startDay];
+  }
+  return days.map((d) => dayNum(y, mo, d));
+}
+
+// k 番目の周期に含まれる候補日（昇順）
+function periodCandidates(r: RRule, k: number, s: { y: number; mo: number; d: number }, s0: number): number[] {
+  let out: number[] = [];
+  if (r.freq === "DAILY") {
+    out = [s0 + k * r.interval];
+  } else if (r.freq === "WEEKLY") {
+    const weekStart = s0 - wdMon(s0) + k * 7 * r.interval;
+    out = r.byDay ? r.byDay.map((b) => weekStart + b.wd) : [weekStart + wdMon(s0)];
+  } else if (r.freq === "MONTHLY") {
+    const idx = s.y * 12 + (s.mo - 1) + k * r.interval;
+    out = monthCandidates(Math.floor(idx / 12), (idx % 12) + 1, r, s.d);
+  } else {
+    const y = s.y + k * r.interval;
+    for (const mo of r.byMonth ?? [s.mo]) out.push(...monthCandidates(y, mo, r, s.d));
+  }
+  out = [...new Set(out)].sort((a, b) => a - b);
+  // 周期内の絞り込み
+  out = out.filter((dn) => {
+    const { y, mo, d } = fromDayNum(dn);
+    if (r.byMonth && r.freq !== "YEARLY" && !r.byMonth.includes(mo)) return false;
+    if (r.freq === "DAILY" || r.freq === "WEEKLY") {
+      if (r.freq === "DAILY" && r.byDay && !r.byDay.some((b) => b.wd === wdMon(dn))) return false;
+      if (r.byMonthDay) {
+        const n = daysIn(y, mo);
+        if (!r.byMonthDay.some((x) => (x > 0 ? x : n + 1 + x) === d)) return false;
+      }
+    }
+    return true;
+  });
+  if (r.bySetPos) {
+    out = r.bySetPos
+      .map((p) => (p > 0 ? out[p - 1] : out[out.length + p]))
+      .filter((x): x is number => x !== undefined)
+      .sort((a, b) => a - b);
+  }
+  return out;
+}
+
+/**
+ * 1件のイベントを [fromMs, toMs) と重なる発生に展開
+ * フローティング（TZIDなし・終日）の予定は floatingTz の壁時計として置く。
+ * 除外日/上書きとの照合は取り込み時と同じ端末ローカル基準のエポックで行う。
+ */
+export function expandEvent(
+  ev: IcsEvent,
+  fromMs: number,
+  toMs: number,
+  overridden?: Set<number>,
+  floatingTz?: string
+) {
+  const out: { startMs: number; endMs: number }[] = [];
+  const st = ev.start;
+  const floating = !st.tz && !!floatingTz;
+  const keyAt = (y: number, mo: number, d: number) => icsTimeToEpoch({ ...st, y, mo, d });
+  const excluded = new Set(ev.exdates);
+  const emit = (y: number, mo: number, d: number) => {
+    const key = keyAt(y, mo, d);
+    if (excluded.has(key) || overridden?.has(key)) return;
+    const startMs = floating ? wallTimeToEpoch(floatingTz!, y, mo, d, st.h, st.mi, st.s) : key;
+    const days = Math.round(ev.durationMs / DAY_MS);
+    const endMs = !st.allDay
+      ? startMs + ev.durationMs
+      : floating
+        ? wallTimeToEpoch(floatingTz!, y, mo, d + days)
+        : new Date(y, mo - 1, d + days).getTime();
+    if (endMs > fromMs && startMs < toMs) out.push({ startMs, endMs: Math.max(endMs, startMs) });
+  };
+
+  const rule = ev.rrule ? parseRRule(ev.rrule) : null;
+  const firstMs = icsTimeToEpoch(st);
+  if (!rule) {
+    emit(st.y, st.mo, st.d);
+  } else {
+    const s0 = dayNum(st.y, st.mo, st.d);
+    // DTSTART は BYDAY などに合わなくても最初の発生（COUNT にも数える）
+    emit(st.y, st.mo, st.d);
+    let emitted = 1;
+    outer: for (let k = 0; k < MAX_PERIODS; k++) {
+      for (const dn of periodCandidates(rule, k, st, s0)) {
+        if (dn <= s0) continue;
+        const { y, mo, d } = fromDayNum(dn);
+        const t = keyAt(y, mo, d);
+        if (rule.until !== undefined && t > rule.until) break outer;
+        if (rule.count !== undefined && ++emitted > rule.count) break outer;
+        if (t >= toMs + DAY_MS) break outer; // ゾーン差ぶんの余裕を見て打ち切り
+        emit(y, mo, d);
+      }
+    }
+  }
+  // RDATE は日時が明示されているのでそのまま
+  for (const t of ev.rdates) {
+    if (t === firstMs || excluded.has(t)) continue;
+    if (t + ev.durationMs > fromMs && t < toMs) out.push({ startMs: t, endMs: t + ev.durationMs });
+  }
+  return out;
+}
+
+/** 有効なカレンダーの予定をまとめて展開（RECURRENCE-ID の上書きを反映） */
+export function expandCalendars(
+  cals: BusyCalendar[],
+  fromMs: number,
+  toMs: number,
+  floatingTz?: string
+): BusyOccurrence[] {
+  const out: BusyOccurrence[] = [];
+  for (const cal of cals) {
+    if (!cal.enabled) continue;
+    const overrides = new Map<string, Set<number>>();
+    for (const ev of cal.events) {
+      if (ev.recurrenceId !== undefined) {
+        let set = overrides.get(ev.uid);
+        if (!set) overrides.set(ev.uid, (set = new Set()));
+        set.add(ev.recurrenceId);
+      }
+    }
+    for (const ev of cal.events) {
+      const overridden = ev.recurrenceId === undefined ? overrides.get(ev.uid) : undefined;
+      // 上書きイベント自体は単発として扱う
+      const single = ev.recurrenceId !== undefined ? { ...ev, rrule: undefined, rdates: [] } : ev;
+      for (const o of expandEvent(single, fromMs, toMs, overridden, floatingTz)) {
+        out.push({ uid: ev.uid, summary: ev.summary, allDay: ev.start.allDay, ...o });
+      }
+    }
+  }
+  return out.sort((a, b) => a.startMs - b.startMs);
+}
+
+/** ====== 日別の予定（分単位・tz の壁時計） ====== */
+export function busyRangesByDate(occs: BusyOccurrence[], tz: string): Record<string, BusyRange[]> {
+  const byDate: Record<string, BusyRange[]> = {};
+  const minutesOfDay = (ms: number) => {
+    const w = wallClockIn(tz, ms);
+    return w.h * 60 + w.mi;
+  };
+  for (const o of occs) {
+    const first = wallClockIn(tz, o.startMs);
+    for (let i = 0; ; i++) {
+      const dayStart = wallTimeToEpoch(tz, first.y, first.mo, first.d + i);
+      const nextDay = wallTimeToEpoch(tz, first.y, first.mo, first.d + i + 1);
+      if (dayStart >= o.endMs) break;
+      const start = o.startMs <= dayStart ? 0 : minutesOfDay(o.startMs);
+      const end = o.endMs >= nextDay ? 1440 : minutesOfDay(o.endMs);
+      const { y, mo, d } = fromDayNum(dayNum(first.y, first.mo, first.d + i));
+      if (end > start) (byDate[`${y}-${pad(mo)}-${pad(d)}`] ??= []).push({ start, end, summary: o.summary });
+    }
+  }
+  for (const k of Object.keys(byDate)) byDate[k].sort((a, b) => a.start - b.start);
+  return byDate;
+}
+
+// 重なりを統合した合計分数（カレンダーの混雑度表示用）
+export function busyMinutes(ranges: BusyRange[], from = 0, to = 1440) {
+  let total = 0;
+  let curS = -1;
+  let curE = -1;
+  for (const r of [...ranges].sort((a, b) => a.start - b.start)) {
+    const s = Math.max(r.start, from);
+    const e = Math.min(r.end, to);
+    if (e <= s) continue;
+    if (s > curE) {
+      total += curE - curS;
+      curS = s;
+      curE = e;
+    } else curE = Math.max(curE, e);
+  }
+  return total + (curE - curS);
+}
+
+export const findBusyOverlap = (ranges: BusyRange[] | undefined, start: number, end: number) =>
+  ranges?.find((r) => r.start < end && start < r.end);
+
+/** ====== 書き出し（仮押さえ） ====== */
+export type HoldEvent = {
+  uid: string;
+  startMs: number;
+  endMs: number;
+  summary: string;
+  sequence: number;     // 再書き出しで更新として扱わせるため増やす
+  cancelled?: boolean;  // 候補から消えた枠の取り消し
+};
+
+// 書き出し済みの仮押さえ（Slot.id → 前回の内容）
+export type HoldRecord = { seq: number; startMs: number; endMs: number; summary: string };
+// 案件ごと（draftId → 書き出し済みの仮押さえ）。案件を切り替えてもほかの案件の分は取り消さない
+export type HoldExports = Record<string, Record<string, HoldRecord>>;
+
+/**
+ * 1つの案件の仮押さえを書き出す：変わった枠は SEQUENCE を上げ、
+ * 前回書き出した後に消した枠は取り消しにする。next は次回の prev
+ */
+export function holdEvents(
+  prev: Record<string, HoldRecord>,
+  holds: { id: string; startMs: number; endMs: number }[],
+  summary: string
+): { events: HoldEvent[]; next: Record<string, HoldRecord> } {
+  const next: Record<string, HoldRecord> = {};
+  const events: HoldEvent[] = holds.map(({ id, startMs, endMs }) => {
+    const p = prev[id];
+    const changed = !p || p.startMs !== startMs || p.endMs !== endMs || p.summary !== summary;
+    const seq = !p ? 0 : changed ? p.seq + 1 : p.seq;
+    next[id] = { seq, startMs, endMs, summary };
+    return { uid: `${id}@appoint-maker`, startMs, endMs, summary, sequence: seq };
+  });
+  for (const [id, p] of Object.entries(prev)) {
+    if (next[id]) continue;
+    events.push({ uid: `${id}@appoint-maker`, startMs: p.startMs, endMs: p.endMs, summary: p.summary, sequence: p.seq + 1, cancelled: true });
+  }
+  return { events, next };
+}
+
+const escapeText = (v: string) => v.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\r?\n/g, "\\n");
+const fmtUTC = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// 1行75オクテットで折り返し（マルチバイト文字の途中では切らない）
+function foldLine(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const b = enc.encode(ch).length;
+    if (bytes + b > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += b;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+export function buildHoldsIcs(events: HoldEvent[], stampMs = Date.now()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//appoint-maker//holds//JA",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  for (const ev of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${ev.uid}`,
+      `DTSTAMP:${fmtUTC(stampMs)}`,
+      `SEQUENCE:${ev.sequence}`,
+      `DTSTART:${fmtUTC(ev.startMs)}`,
+      `DTEND:${fmtUTC(ev.endMs)}`,
+      `SUMMARY:${escapeText(ev.summary)}`,
+      `STATUS:${ev.cancelled ? "CANCELLED" : "TENTATIVE"}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { parseDateMentions } from "./jaDate";
+
+describe("日付・時刻の読み取り", () => {
+  const today = "2025-09-22";
+
+  it("月日・曜日・午前/午後・〜時半・時〜時を読む", () => {
+    expect(parseDateMentions("９月２６日（金）午後２時半〜３時半、来週水曜の10時", today)).toEqual([
+      { date: { month: 9, day: 26 }, weekday: 4, times: [{ start: 870, end: 930 }] },
+      { date: { year: 2025, month: 10, day: 1 }, weekday: 2, times: [{ start: 600 }] },
+    ]);
+    expect(parseDateMentions("26日の午前中か、木曜13-15", today)).toEqual([
+      { date: { day: 26 }, times: [{ start: 540, end: 720, period: "am" }] },
+      { weekday: 3, times: [{ start: 780, end: 900 }] },
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+/** ====== 日本語の日付・時刻の読み取り（相手の返信の解析などで使う） ======
+ * 「9月26日（金）の14時から」「来週火曜 10:00〜11:30」「午後2時半〜3時半」のような書き方を
+ * 出てきた順に「日付＋時刻」のまとまり（DateMention）にする
+ */
+
+// 曜日は月曜始まり（0 = 月）
+const WEEKDAY_CHARS = "月火水木金土日";
+
+// 月のない「26日」は month なし
+export type DateRef = { year?: number; month?: number; day: number };
+
+// 時刻のない「午前」「午後」「終日」
+export type Period = "am" | "pm" | "day";
+
+/**
+ * 時刻の指定（分）。end がなければ開始時刻だけ
+ * ambiguous：午前/午後の書いていない 1〜7 時は午後とみなした（書いたままの時刻の可能性もある）
+ */
+export type TimeSpec = { start: number; end?: number; ambiguous?: boolean; period?: Period };
+
+export type DateMention = {
+  date?: DateRef;   // 日付（「明日」「来週火曜」は today から求めた年付き）
+  weekday?: number; // 曜日だけ、または日付に添えた曜日
+  times: TimeSpec[];
+};
+
+// 時刻のない「午前」「午後」を枠にするときの範囲（営業時間の目安）
+export const PERIOD_RANGE: Record<Period, { start: number; end: number }> = {
+  am: { start: 9 * 60, end: 12 * 60 },
+  pm: { start: 13 * 60, end: 18 * 60 },
+  day: { start: 9 * 60, end: 18 * 60 },
+};
+
+/** 全角数字・記号を半角にし、波ダッシュなどの範囲記号を「〜」に揃える */
+export const normalizeJa = (text: string) => text.normalize("NFKC").replace(/[~～〰–—−]/g, "〜");
+
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+export const toDateISO = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
+
+export const addDays = (iso: string, n: number) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d + n));
+  return toDateISO(t.getUTCFullYear(), t.getUTCMonth() + 1, t.getUTCDate());
+};
+
+export const weekdayOf = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return (new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7;
+};
+
+// 実在する日付か（2月30日などをはじく）
+const isValidDate = (y: number, m: number, d: number) => {
+  const t = new Date(Date.UTC(y, m - 1, d));
+  return t.getUTCFullYear() === y && t.getUTCMonth() === m - 1 && t.getUTCDate() === d;
+};
+
+/** 年（・月）のない日付を today 以降で最初の日付にする（なければ null） */
+export function resolveDate(ref: DateRef, todayISO: string) {
+  const [ty, tm] = todayISO.split("-").map(Number);
+  const tries: [number, number][] = ref.month
+    ? ref.year
+      ? [[ref.year, ref.month]]
+      : [[ty, ref.month], [ty + 1, ref.month]]
+    : [0, 1, 2].map((i) => [ty + Math.floor((tm - 1 + i) / 12), ((tm - 1 + i) % 12) + 1]);
+  for (const [y, m] of tries) {
+    const iso = toDateISO(y, m, ref.day);
+    if (isValidDate(y, m, ref.day) && (ref.year || iso >= todayISO)) return iso;
+  }
+  return null;
+}
+
+/** その日付か（年・月のない指定は書かれている部分だけ比べる） */
+export const matchesDate = (ref: DateRef, iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return d === ref.day && (!ref.month || m === ref.month) && (!ref.year || y === ref.year);
+};
+
+/** today 以降で最初のその曜日（today を含む） */
+export const nextWeekday = (weekday: number, todayISO: string) =>
+  addDays(todayISO, (weekday - weekdayOf(todayISO) + 7) % 7);
+
+/** ====== 時刻 ====== */
+type Clock = { mer?: string; h: number; m: number };
+
+// 「午後」「PM」などの表記
+const MER = "(午前|午後|AM|PM|am|pm)?\\s*";
+// 「14時」「14時半」「14時30分」「14:30」（suffix なしの数字だけは範囲の片側のみ）
+const CLOCK = "(?<!\\d)(\\d{1,2})(?::(\\d{2})|(時)(?:(半)|(\\d{1,2})分)?)";
+const CLOCK_OPT = "(?<!\\d)(\\d{1,2})(?::(\\d{2})|(時)(?:(半)|(\\d{1,2})分)?)?(?!\\d)";
+
+// 正規表現の1つ分の時刻（MER + CLOCK の6グループ）を読む
+const readClock = (g: (string | undefined)[]): Clock & { suffixed: boolean } => ({
+  mer: g[0] ? (/^(午前|am)$/i.test(g[0]) ? "am" : "pm") : undefined,
+  h: Number(g[1]),
+  m: g[2] ? Number(g[2]) : g[4] ? 30 : g[5] ? Number(g[5]) : 0,
+  suffixed: !!(g[2] || g[3]),
+});
+
+// 午前/午後を反映した分（書いていない 1〜7 時は午後とみなす）
+function toMinutes(c: Clock, mer = c.mer): { minutes: number; ambiguous?: boolean } | null {
+  if (c.m >= 60 || c.h > 24) return null;
+  let h = c.h;
+  let ambiguous = false;
+  if (mer === "pm") {
+    if (h < 12) h += 12;
+  } else if (mer === "am") {
+    if (h === 12) h = 0;
+  } else if (h >= 1 && h <= 7) {
+    h += 12;
+    ambiguous = true;
+  }
+  const minutes = h * 60 + c.m;
+  return minutes <= 1440 ? { minutes, ...(ambiguous ? { ambiguous } : {}) } : null;
+}
+
+function rangeSpec(a: Clock, b: Clock): TimeSpec | null {
+  // 午前/午後は片側だけ書かれていることが多い（「午後2時〜3時」「2〜午後3時」）
+  const start = toMinutes(a, a.mer ?? (b.mer && a.h <= b.h ? b.mer : undefined));
+  const end = toMinutes(b, b.mer ?? a.mer);
+  if (!start || !end) return null;
+  let s = start.minutes;
+  let e = end.minutes;
+  // 「10〜2時」：開始を午後とみなして逆転したら戻す／「11時〜1時」：終わりが手前なら午後
+  if (start.ambiguous && s >= e) s -= 720;
+  if (e <= s && !b.mer && !a.mer && e + 720 <= 1440) e += 720;
+  if (s >= e) return null;
+  return { start: s, end: e, ...(start.ambiguous && end.ambiguous ? { ambiguous: true } : {}) };
+}
+
+/** ====== 字句（先に書いたものから試す） ====== */
+const WD = `([${WEEKDAY_CHARS}])`;
+const RULES = {
+  ymd: /(?<!\d)(\d{4})[年/-](\d{1,2})[月/-](\d{1,2})日?/y,
+  md: /(?<![\d/])(\d{1,2})(?:月(\d{1,2})日|\/(\d{1,2})(?![\d/]))/y,
+  rel: /今日|本日|明後日|明日/y,
+  week: new RegExp(`(今週|再来週|来週)の?${WD}曜日?`, "y"),
+  wd: new RegExp(`[（(]${WD}[）)]|${WD}曜日?`, "y"),
+  range: new RegExp(`${MER}${CLOCK_OPT}\\s*(?:〜|から|-)\\s*${MER}${CLOCK_OPT}`, "y"),
+  time: new RegExp(`${MER}${CLOCK}`, "y"),
+  period: /午前中?|午後|終日/y,
+  day: /(?<![\d/])(\d{1,2})日(?!間)/y,
+};
+type Rule = keyof typeof RULES;
+
+/** 文章から日付・時刻のまとまりを出てきた順に取り出す（曜日だけ・時刻だけのまとまりもある） */
+export function parseDateMentions(text: string, todayISO: string): DateMention[] {
+  const src = normalizeJa(text);
+  const out: DateMention[] = [];
+  const last = () => out[out.length - 1] as DateMention | undefined;
+  const current = () => last() ?? (out.push({ times: [] }), out[0]);
+  const fixed = (iso: string): DateRef => {
+    const [year, month, day] = iso.split("-").map(Number);
+    return { year, month, day };
+  };
+  const addDate = (date: DateRef, weekday?: number) => {
+    const cur = last();
+    const wd = weekday !== undefined ? { weekday } : {};
+    // 曜日だけのまとまりの直後の日付（「金曜、9/26の…」）は同じもの
+    if (cur && !cur.date && cur.times.length === 0) Object.assign(cur, { date }, wd);
+    else out.push({ date, ...wd, times: [] });
+  };
+  const on: Record<Rule, (g: (string | undefined)[]) => boolean> = {
+    ymd: ([y, m, d]) => (addDate({ year: Number(y), month: Number(m), day: Number(d) }), true),
+    md: ([m, d1, d2]) => {
+      const month = Number(m);
+      const day = Number(d1 ?? d2);
+      if (month < 1 || month > 12 || day < 1 || day > 31) return false;
+      addDate({ month, day });
+      return true;
+    },
+    rel: () => true, // 下で match した文字列を見る
+    week: ([which, w]) => {
+      const weekday = WEEKDAY_CHARS.indexOf(w!);
+      const monday = addDays(todayISO, -weekdayOf(todayISO));
+      const weeks = which === "再来週" ? 2 : which === "来週" ? 1 : 0;
+      addDate(fixed(addDays(monday, weeks * 7 + weekday)), weekday);
+      return true;
+    },
+    wd: ([w1, w2]) => {
+      const weekday = WEEKDAY_CHARS.indexOf((w1 ?? w2)!);
+      // 日付に添えた曜日（「9月26日（金）」）はそのまとまりへ
+      const cur = last();
+      if (cur?.date && cur.weekday === undefined && cur.times.length === 0) cur.weekday = weekday;
+      else out.push({ weekday, times: [] });
+      return true;
+    },
+    range: (g) => {
+      const a = readClock(g.slice(0, 6));
+      const b = readClock(g.slice(6, 12));
+      // 数字だけの「13-15」は両側とも時刻らしいときだけ
+      if (!a.suffixed && !b.suffixed && (a.h > 24 || b.h > 24)) return false;
+      const spec = rangeSpec(a, b);
+      if (!spec) return false;
+      current().times.push(spec);
+      return true;
+    },
+    time: (g) => {
+      const t = toMinutes(readClock(g));
+      if (!t) return false;
+      current().times.push({ start: t.minutes, ...(t.ambiguous ? { ambiguous: true } : {}) });
+      return true;
+    },
+    period: () => true,
+    day: ([d]) => {
+      const day = Number(d);
+      if (day < 1 || day > 31) return false;
+      addDate({ day });
+      return true;
+    },
+  };
+
+  let i = 0;
+  scan: while (i < src.length) {
+    for (const rule of Object.keys(RULES) as Rule[]) {
+      const re = RULES[rule];
+      re.lastIndex = i;
+      const m = re.exec(src);
+      if (!m || !m[0] || !on[rule](m.slice(1))) continue;
+      if (rule === "rel") addDate(fixed(addDays(todayISO, m[0] === "明後日" ? 2 : m[0] === "明日" ? 1 : 0)));
+      if (rule === "period") {
+        const period: Period = m[0].startsWith("午前") ? "am" : m[0] === "午後" ? "pm" : "day";
+        current().times.push({ ...PERIOD_RANGE[period], period });
+      }
+      i += m[0].length;
+      continue scan;
+    }
+    i++;
+  }
+  return out;
+}
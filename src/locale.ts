@@ -0,0 +1,94 @@
+/** ====== 言語・日時の書式 ======
+ * 画面の言語（uiLocale）と出力文面の言語（outputLocale）は別々に選ぶ
+ */
+export type Locale = "ja" | "en";
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "ja", label: "日本語" },
+  { id: "en", label: "English" },
+];
+
+export const isLocale = (v: unknown): v is Locale => v === "ja" || v === "en";
+
+// ブラウザの言語から既定値（日本語以外は英語）
+export const browserLocale = (): Locale => {
+  try {
+    return (navigator.language || "ja").toLowerCase().startsWith("ja") ? "ja" : "en";
+  } catch {
+    return "ja";
+  }
+};
+
+// 月曜始まり
+export const WEEKDAYS: Record<Locale, string[]> = {
+  ja: ["月", "火", "水", "木", "金", "土", "日"],
+  en: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"],
+};
+
+export const MONTHS: Record<Locale, string[]> = {
+  ja: ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"],
+  en: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+};
+
+/** 時刻表記："auto" は言語の慣習（日本語 24時間 / 英語 12時間） */
+export type TimeFormat = "auto" | "12h" | "24h";
+
+export type TimeStyle = { locale: Locale; hour12: boolean };
+
+export const isTimeFormat = (v: unknown): v is TimeFormat => v === "auto" || v === "12h" || v === "24h";
+
+export const timeStyle = (locale: Locale, format: TimeFormat = "auto"): TimeStyle => ({
+  locale,
+  hour12: format === "auto" ? locale === "en" : format === "12h",
+});
+
+export const JA_24H: TimeStyle = { locale: "ja", hour12: false };
+
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+// 分（0〜1440）→ 時・分・午前/午後
+const clock = (m: number) => {
+  const h = ((m / 60) | 0) % 24;
+  return { h, mi: m % 60, pm: h >= 12, h12: h % 12 || 12 };
+};
+
+const meridiem = (pm: boolean, locale: Locale) => (locale === "ja" ? (pm ? "午後" : "午前") : pm ? "PM" : "AM");
+
+/** 1つの時刻（13:00 / 午後1:00 / 1:00 PM）。24時間表記の 1440 は "24:00" */
+export function formatTime(m: number, style: TimeStyle) {
+  if (!style.hour12) return m === 1440 ? "24:00" : `${pad((m / 60) | 0)}:${pad(m % 60)}`;
+  const c = clock(m);
+  const hm = `${c.h12}:${pad(c.mi)}`;
+  return style.locale === "ja" ? `${meridiem(c.pm, "ja")}${hm}` : `${hm} ${meridiem(c.pm, "en")}`;
+}
+
+export const rangeDash = (locale: Locale) => (locale === "ja" ? "〜" : "–");
+
+/**
+ * 時間帯の表記。12時間表記で午前/午後が同じなら片方だけ付ける
+ * （13:00〜14:00 / 午後1:00〜2:00 / 1:00–2:00 PM / 11:00 AM–1:00 PM）
+ * endNextDay は終了が翌日（"翌2:00" / "2:00 AM (+1)"）
+ */
+export function formatTimeRange(start: number, end: number, style: TimeStyle, endNextDay = false) {
+  const dash = rangeDash(style.locale);
+  const a = formatTime(start, style);
+  const b = formatTime(end, style);
+  if (endNextDay) return style.locale === "ja" ? `${a}${dash}翌${b}` : `${a}${dash}${b} (+1)`;
+  if (!style.hour12 || clock(start).pm !== clock(end).pm || end === 1440) return `${a}${dash}${b}`;
+  const c = clock(end);
+  const bare = `${c.h12}:${pad(c.mi)}`;
+  return style.locale === "ja" ? `${a}${dash}${bare}` : `${a.replace(/ [AP]M$/, "")}${dash}${b}`;
+}
+
+// 相手ゾーンの日付が自分側とずれるときの注記
+export const dayShiftLabel = (shift: number, locale: Locale) =>
+  shift === 0 ? "" : locale === "ja" ? (shift < 0 ? "（前日）" : "（翌日）") : shift < 0 ? " (prev. day)" : " (next day)";
+
+/** 長さ（30分 / 1時間 / 1時間30分 ・ 30 minutes / 1 hour / 1 hr 30 min） */
+export function formatDuration(m: number, locale: Locale) {
+  const h = (m / 60) | 0;
+  const mi = m % 60;
+  if (locale === "ja") return `${h ? `${h}時間` : ""}${mi || !h ? `${mi}分` : ""}`;
+  if (!mi) return `${h} hour${h > 1 ? "s" : ""}`;
+  return h ? `${h} hr ${mi} min` : `${mi} minutes`;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { readSharedContent, sharedDraftName } from "./pwa";
+
+describe("共有で受け取った内容", () => {
+  it("本文と URL をまとめ、案件名は件名か本文の1行目", () => {
+    const c = readSharedContent("?share-target&title=&text=%0A%E6%97%A5%E7%A8%8B%E3%81%AE%E4%BB%B6%0A%E6%9D%A5%E9%80%B1&url=https%3A%2F%2Fex.com");
+    expect(c).toEqual({ title: "", text: "日程の件\n来週\nhttps://ex.com" });
+    expect(sharedDraftName(c!)).toBe("日程の件");
+    expect(sharedDraftName({ title: "打ち合わせ", text: "" })).toBe("打ち合わせ");
+    expect(readSharedContent("?uid=a")).toBeNull();
+    expect(readSharedContent("?share-target&text=")).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/** ====== PWA：Service Worker の登録・更新の通知・ホーム画面への追加 ====== */
+
+// 新しい版が入った（待機中）ときに呼ぶ。apply で切り替えて読み込み直す
+export type UpdateHandler = (apply: () => void) => void;
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+let registered = false;
+
+/** 本番ビルドだけ登録する（開発サーバーには sw.js がない）。2回目以降の呼び出しは何もしない */
+export function registerServiceWorker(onUpdate: UpdateHandler) {
+  if (registered || !import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  registered = true;
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`)
+    .then((reg) => {
+      const notify = (w: ServiceWorker) =>
+        onUpdate(() => {
+          navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+          w.postMessage("skipWaiting");
+        });
+      // 初回のインストールは通知しない（すでに動いている版がある＝controller があるときだけ）
+      if (reg.waiting && navigator.serviceWorker.controller) notify(reg.waiting);
+      reg.addEventListener("updatefound", () => {
+        const w = reg.installing;
+        w?.addEventListener("statechange", () => {
+          if (w.state === "installed" && navigator.serviceWorker.controller) notify(w);
+        });
+      });
+      // 開きっぱなしでも新しい版に気づけるように
+      window.setInterval(() => void reg.update().catch(() => {}), UPDATE_CHECK_MS);
+    })
+    .catch(() => {});
+}
+
+/** === ホーム画面に追加 === */
+type BeforeInstallPromptEvent = Event & {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+};
+
+export const isStandalone = () =>
+  window.matchMedia?.("(display-mode: standalone)").matches ||
+  (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+// iOS の Safari は beforeinstallprompt を出さないので、共有メニューからの手順を案内する
+export const isIos = () => /iPhone|iPad|iPod/.test(navigator.userAgent);
+
+/**
+ * ブラウザが追加できる状態になったら onAvailable に install を渡す（null で取り下げ）
+ * 返り値は解除用
+ */
+export function watchInstallPrompt(onAvailable: (install: (() => Promise<boolean>) | null) => void) {
+  const onPrompt = (e: Event) => {
+    e.preventDefault();
+    const ev = e as BeforeInstallPromptEvent;
+    onAvailable(async () => {
+      await ev.prompt();
+      const { outcome } = await ev.userChoice;
+      onAvailable(null);
+      return outcome === "accepted";
+    });
+  };
+  const onInstalled = () => onAvailable(null);
+  window.addEventListener("beforeinstallprompt", onPrompt);
+  window.addEventListener("appinstalled", onInstalled);
+  return () => {
+    window.removeEventListener("beforeinstallprompt", onPrompt);
+    window.removeEventListener("appinstalled", onInstalled);
+  };
+}
+
+/** === 共有で受け取った内容（manifest の share_target → ./?share-target&title=&text=&url=） === */
+export type SharedContent = { title: string; text: string };
+
+export function readSharedContent(search: string): SharedContent | null {
+  const p = new URLSearchParams(search);
+  if (!p.has("share-target")) return null;
+  const title = (p.get("title") ?? "").trim();
+  // URL だけ別に渡すアプリもあるので本文の後ろに付ける
+  const text = [p.get("text") ?? "", p.get("url") ?? ""].map((s) => s.trim()).filter(Boolean).join("\n");
+  return title || text ? { title, text } : null;
+}
+
+/** 受け取った内容から案件名（件名、なければ本文の1行目） */
+export const sharedDraftName = (c: SharedContent, max = 40) => {
+  const line = c.title || c.text.split("\n").find((l) => l.trim())?.trim() || "";
+  return line.length > max ? `${line.slice(0, max)}…` : line;
+};
+
+// 受け取ったら URL から外す（読み込み直しで二重に作らない。uid は残す）
+export function clearShareParams() {
+  const url = new URL(window.location.href);
+  for (const k of ["share-target", "title", "text", "url"]) url.searchParams.delete(k);
+  window.history.replaceState(null, "", url.toString());
+}
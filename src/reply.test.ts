@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { matchReply } from "./reply";
+import type { Slot } from "./types";
+
+describe("返信の文章から確定", () => {
+  const today = "2025-09-22";
+  const slots: Slot[] = [
+    { id: "a", dateISO: "2025-09-25", start: 780, end: 900 },
+    { id: "b", dateISO: "2025-09-26", start: 780, end: 1020 },
+    { id: "c", dateISO: "2025-10-01", start: 600, end: 660 },
+  ];
+  const hits = (text: string, duration = 0) =>
+    matchReply(text, slots, today, { duration }).map((m) => [m.slot.id, m.start, m.end]);
+
+  it("候補の中に入る日時を探し、会議が短ければその時間にする", () => {
+    expect(hits("9月26日の14時からでお願いします", 60)).toEqual([["b", 840, 900]]);
+    expect(hits("9月26日の14時からでお願いします")).toEqual([["b", 840, 1020]]);
+    expect(hits("木曜の午後2時〜3時")).toEqual([["a", 840, 900]]);
+    expect(hits("10/1でお願いします")).toEqual([["c", 600, 660]]);
+    expect(hits("9月27日の14時")).toEqual([]);
+  });
+});
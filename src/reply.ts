@@ -0,0 +1,49 @@
+import { effectiveDuration, type Meeting } from "./compose";
+import { matchesDate, parseDateMentions, type TimeSpec, weekdayOf } from "./jaDate";
+import type { Slot } from "./types";
+
+/** ====== 相手の返信（文章）から選ばれた候補を探す ======
+ * 「9月26日の14時からでお願いします」→ 9/26 の 14:00 を含む候補（会議が枠より短ければ 14:00〜会議の長さ分）
+ */
+export type ReplyMatch = { slot: Slot; start: number; end: number };
+
+// 時刻のない「午前」「午後」は半日のどこかにかかる候補
+const HALF_DAY = { am: { start: 0, end: 720 }, pm: { start: 720, end: 1440 }, day: { start: 0, end: 1440 } };
+
+// 1つの時刻の指定に合う候補（午前/午後を書いていない時刻は、午後で見つからなければ書いたままの時刻で）
+function matchTime(pool: Slot[], spec: TimeSpec, meeting: Meeting): ReplyMatch[] {
+  if (spec.period) {
+    const half = HALF_DAY[spec.period];
+    return pool.filter((s) => s.start < half.end && s.end > half.start).map((slot) => ({ slot, start: slot.start, end: slot.end }));
+  }
+  for (const shift of spec.ambiguous ? [0, -720] : [0]) {
+    const start = spec.start + shift;
+    const hits = pool.flatMap((slot) => {
+      const duration = effectiveDuration(slot, meeting);
+      const end = spec.end !== undefined ? spec.end + shift : duration ? start + duration : slot.end;
+      return start >= slot.start && end <= slot.end && start < end ? [{ slot, start, end }] : [];
+    });
+    if (hits.length) return hits;
+  }
+  return [];
+}
+
+/** 返信の文章に書かれた日時に合う候補（書かれた順・重複なし） */
+export function matchReply(text: string, slots: Slot[], todayISO: string, meeting: Meeting = {}): ReplyMatch[] {
+  const out: ReplyMatch[] = [];
+  for (const m of parseDateMentions(text, todayISO)) {
+    // 日付があれば日付で、曜日だけなら曜日で絞る（時刻だけならすべての候補から）
+    const pool = slots.filter((s) =>
+      m.date ? matchesDate(m.date, s.dateISO) : m.weekday !== undefined ? weekdayOf(s.dateISO) === m.weekday : true
+    );
+    const hits = m.times.length
+      ? m.times.flatMap((spec) => matchTime(pool, spec, meeting))
+      : m.date || m.weekday !== undefined
+        ? pool.map((slot) => ({ slot, start: slot.start, end: slot.end }))
+        : [];
+    for (const h of hits) {
+      if (!out.some((o) => o.slot.id === h.slot.id && o.start === h.start && o.end === h.end)) out.push(h);
+    }
+  }
+  return out;
+}
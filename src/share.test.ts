@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { decodeShare, encodeShare, parseReplyCode, replyCode } from "./share";
+
+describe("共有リンク", () => {
+  const share = { name: "山田", tz: "Asia/Tokyo", slots: [{ dateISO: "2025-09-25", start: 780, end: 900 }] };
+
+  it("エンコードしたものはそのまま読める", () => {
+    expect(decodeShare(encodeShare(share))).toEqual(share);
+  });
+
+  it("不正なタイムゾーン・壊れたコードは null", () => {
+    expect(decodeShare(encodeShare({ ...share, tz: "Mars/Olympus" }))).toBeNull();
+    expect(decodeShare("%%%")).toBeNull();
+  });
+
+  it("返信コード", () => {
+    expect(parseReplyCode(`選びました [${replyCode(share.slots[0])}]`)).toEqual({
+      none: false,
+      dateISO: "2025-09-25",
+      start: 780,
+    });
+    expect(parseReplyCode("AM-NONE")).toEqual({ none: true });
+  });
+});
@@ -0,0 +1,143 @@
+import { isValidTimeZone } from "./tz";
+import type { Slot } from "./types";
+
+/** ====== 共有リンク（#pick=…）：サーバーなしで候補を渡す ======
+ * 候補は日付差分・5分単位の開始/長さ/会議の長さを可変長整数に詰め、base64url にして URL ハッシュへ載せる
+ * （版1は15分単位で会議の長さなし。読み込みだけ対応）
+ */
+export type SharePayload = {
+  name: string;   // 差出人の表示名
+  tz: string;     // 候補の時刻のタイムゾーン
+  slots: Omit<Slot, "id">[];
+};
+
+const VERSION = 2;
+const UNIT_BY_VERSION: Record<number, number> = { 1: 15, 2: 5 };
+const UNIT = UNIT_BY_VERSION[VERSION];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+const dayNumOf = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+const isoOfDayNum = (n: number) => {
+  const d = new Date(n * DAY_MS);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+/** ====== バイト列 ====== */
+function writeVarint(out: number[], n: number) {
+  while (n >= 0x80) {
+    out.push((n & 0x7f) | 0x80);
+    n = Math.floor(n / 128);
+  }
+  out.push(n);
+}
+
+function reader(bytes: Uint8Array) {
+  let i = 0;
+  const varint = () => {
+    let n = 0;
+    let mul = 1;
+    for (;;) {
+      if (i >= bytes.length) throw new Error("truncated");
+      const b = bytes[i++];
+      n += (b & 0x7f) * mul;
+      if (!(b & 0x80)) return n;
+      mul *= 128;
+    }
+  };
+  const str = () => {
+    const len = varint();
+    if (i + len > bytes.length) throw new Error("truncated");
+    const s = new TextDecoder().decode(bytes.slice(i, i + len));
+    i += len;
+    return s;
+  };
+  return { varint, str };
+}
+
+const writeStr = (out: number[], s: string) => {
+  const b = new TextEncoder().encode(s);
+  writeVarint(out, b.length);
+  out.push(...b);
+};
+
+const toBase64Url = (bytes: number[]) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const fromBase64Url = (s: string) => {
+  const b = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(b, (c) => c.charCodeAt(0));
+};
+
+/** ====== エンコード / デコード ====== */
+export function encodeShare(p: SharePayload) {
+  const out: number[] = [VERSION];
+  writeStr(out, p.name);
+  writeStr(out, p.tz);
+  const slots = [...p.slots].sort((a, b) =>
+    a.dateISO === b.dateISO ? a.start - b.start : a.dateISO.localeCompare(b.dateISO)
+  );
+  writeVarint(out, slots.length);
+  let prevDay = slots.length ? dayNumOf(slots[0].dateISO) : 0;
+  writeVarint(out, prevDay);
+  for (const s of slots) {
+    const day = dayNumOf(s.dateISO);
+    writeVarint(out, day - prevDay);
+    writeVarint(out, Math.round(s.start / UNIT));
+    writeVarint(out, Math.round((s.end - s.start) / UNIT));
+    writeVarint(out, Math.round((s.duration ?? 0) / UNIT));
+    prevDay = day;
+  }
+  return toBase64Url(out);
+}
+
+export function decodeShare(code: string): SharePayload | null {
+  try {
+    const r = reader(fromBase64Url(code));
+    const version = r.varint();
+    const unit = UNIT_BY_VERSION[version];
+    if (!unit) return null;
+    const name = r.str();
+    const tz = r.str();
+    // 受け手の画面はこのゾーンで Intl を呼ぶ（不正なゾーンは RangeError で表示できない）
+    if (!isValidTimeZone(tz)) return null;
+    const count = r.varint();
+    let day = r.varint();
+    const slots: SharePayload["slots"] = [];
+    for (let k = 0; k < count; k++) {
+      day += r.varint();
+      const start = r.varint() * unit;
+      const end = start + r.varint() * unit;
+      const duration = version >= 2 ? r.varint() * unit : 0;
+      if (end > 1440 || start >= end) return null;
+      slots.push({ dateISO: isoOfDayNum(day), start, end, ...(duration ? { duration } : {}) });
+    }
+    return { name, tz, slots };
+  } catch {
+    return null;
+  }
+}
+
+export const SHARE_HASH_PREFIX = "#pick=";
+
+export const shareUrl = (p: SharePayload) =>
+  `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${encodeShare(p)}`;
+
+export const readShareFromHash = (hash: string) =>
+  hash.startsWith(SHARE_HASH_PREFIX) ? decodeShare(hash.slice(SHARE_HASH_PREFIX.length)) : null;
+
+/** ====== 返信コード（AM-250925-1300 / AM-NONE） ====== */
+export const NONE_CODE = "AM-NONE";
+
+export const replyCode = (s: { dateISO: string; start: number }) =>
+  `AM-${s.dateISO.slice(2).replace(/-/g, "")}-${pad((s.start / 60) | 0)}${pad(s.start % 60)}`;
+
+/** 貼り付けた文から返信コードを探す（なければ null） */
+export function parseReplyCode(text: string): { none: true } | { none: false; dateISO: string; start: number } | null {
+  if (text.toUpperCase().includes(NONE_CODE)) return { none: true };
+  const m = /AM-(\d{2})(\d{2})(\d{2})-(\d{2})(\d{2})/i.exec(text);
+  if (!m) return null;
+  return { none: false, dateISO: `20${m[1]}-${m[2]}-${m[3]}`, start: Number(m[4]) * 60 + Number(m[5]) };
+}
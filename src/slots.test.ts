@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { mergeSlotInto, normalizeRange, withBuffer } from "./slots";
+import type { Slot } from "./types";
+
+const slot = (dateISO: string, start: number, end: number): Slot => ({ id: `${dateISO}-${start}`, dateISO, start, end });
+const times = (list: Slot[]) => list.map((s) => [s.dateISO, s.start, s.end]);
+
+describe("mergeSlotInto", () => {
+  it("重なる枠・接する枠を1つにまとめる", () => {
+    const a = mergeSlotInto([slot("2025-09-25", 600, 660)], "2025-09-25", 630, 720);
+    expect(a.merged).toBe(true);
+    expect(times(a.slots)).toEqual([["2025-09-25", 600, 720]]);
+    const b = mergeSlotInto(a.slots, "2025-09-25", 720, 780);
+    expect(times(b.slots)).toEqual([["2025-09-25", 600, 780]]);
+  });
+
+  it("完全に同じ枠は無視し、別の日は別の枠のまま", () => {
+    const prev = [slot("2025-09-25", 600, 660)];
+    expect(mergeSlotInto(prev, "2025-09-25", 600, 660).slots).toBe(prev);
+    expect(times(mergeSlotInto(prev, "2025-09-26", 600, 660).slots)).toHaveLength(2);
+  });
+
+  it("excludeId の枠を置き換え、確定の印は引き継ぐ", () => {
+    const prev = [{ ...slot("2025-09-25", 600, 660), confirmed: true }];
+    const { slots } = mergeSlotInto(prev, "2025-09-26", 780, 840, prev[0].id);
+    expect(slots).toEqual([{ id: prev[0].id, dateISO: "2025-09-26", start: 780, end: 840, confirmed: true }]);
+  });
+});
+
+describe("normalizeRange", () => {
+  it("最小30分・0〜24時に丸める", () => {
+    expect(normalizeRange(600, 615)).toEqual({ start: 600, end: 630 });
+    expect(normalizeRange(1430, 1500)).toEqual({ start: 1425, end: 1440 });
+  });
+
+  it("刻みと最小の長さは設定で変えられる", () => {
+    expect(normalizeRange(600, 610, { step: 5, minSlot: 15 })).toEqual({ start: 600, end: 615 });
+    expect(normalizeRange(1430, 1500, { step: 5, minSlot: 15 })).toEqual({ start: 1430, end: 1440 });
+  });
+});
+
+describe("withBuffer", () => {
+  it("余白は 0〜24時の中で枠を延ばす", () => {
+    expect(withBuffer({ start: 15, end: 1430 }, { before: 30, after: 30 })).toEqual({ start: 0, end: 1440 });
+  });
+});
@@ -0,0 +1,77 @@
+import type { Slot, SlotBuffer } from "./types";
+
+/** ====== 候補枠の追加・マージ・重複排除 ====== */
+export const STEP = 15;      // タイムトラック1行の分数（表示）
+export const MIN_SLOT = 30;  // 最小30分
+
+/** 枠を作る・動かすときの刻みと最小の長さ（設定で変えられる） */
+export type SlotGrid = { step: number; minSlot: number };
+
+export const DEFAULT_GRID: SlotGrid = { step: STEP, minSlot: MIN_SLOT };
+export const STEP_OPTIONS = [5, 10, 15, 30];
+export const MIN_SLOT_OPTIONS = [15, 30, 45, 60];
+
+export const NO_BUFFER: SlotBuffer = { before: 0, after: 0 };
+
+/** 前後の余白を含めた範囲（重なりの判定用・0〜1440 に収める） */
+export const withBuffer = (s: { start: number; end: number }, b: SlotBuffer = NO_BUFFER) => ({
+  start: Math.max(0, s.start - b.before),
+  end: Math.min(1440, s.end + b.after),
+});
+
+// 刻みに切り捨て
+export const snapTo = (m: number, step: number) => Math.floor(m / step) * step;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+export const sortSlots = (list: Slot[]) =>
+  [...list].sort((a, b) => (a.dateISO === b.dateISO ? a.start - b.start : a.dateISO.localeCompare(b.dateISO)));
+
+/** 範囲を 0..1440・最小長に丸める（不正なら null） */
+export function normalizeRange(start: number, end: number, grid: SlotGrid = DEFAULT_GRID) {
+  start = clamp(start, 0, 1440 - grid.step);
+  end = clamp(end, grid.step, 1440);
+  if (end - start < grid.minSlot) end = Math.min(start + grid.minSlot, 1440);
+  return start < end ? { start, end } : null;
+}
+
+/**
+ * 1枠を追加（同日で重なる/接する枠は1つにマージ、完全重複は無視）
+ * excludeId を渡すと、その枠を置き換える（リサイズ・移動）
+ */
+export function mergeSlotInto(prev: Slot[], dateISO: string, start: number, end: number, excludeId?: string) {
+  // 移動の場合は元のスロットを除外
+  const filtered = excludeId ? prev.filter((p) => p.id !== excludeId) : prev;
+
+  // 完全重複は無視
+  if (filtered.some((p) => p.dateISO === dateISO && p.start === start && p.end === end)) {
+    return { slots: prev, merged: false };
+  }
+
+  // 同日で重なり or 端が接しているものはマージ
+  let mergedStart = start;
+  let mergedEnd = end;
+  let merged = false;
+  const rest: Slot[] = [];
+  for (const p of filtered) {
+    if (p.dateISO !== dateISO) {
+      rest.push(p);
+      continue;
+    }
+    const overlap = !(p.end <= mergedStart || mergedEnd <= p.start);
+    const touching = p.end === mergedStart || mergedEnd === p.start;
+    if (overlap || touching) {
+      mergedStart = Math.min(mergedStart, p.start);
+      mergedEnd = Math.max(mergedEnd, p.end);
+      merged = true;
+    } else {
+      rest.push(p);
+    }
+  }
+  const slot: Slot = { id: excludeId || crypto.randomUUID(), dateISO, start: mergedStart, end: mergedEnd };
+  // 移動・リサイズしても確定の印・会議の長さは引き継ぐ
+  const src = excludeId ? prev.find((p) => p.id === excludeId) : undefined;
+  if (src?.confirmed) slot.confirmed = true;
+  if (src?.duration) slot.duration = src.duration;
+  return { slots: sortSlots([...rest, slot]), merged };
+}
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AppError } from "./i18n";
+import {
+  backupToJson,
+  diffStore,
+  mergeStore,
+  migrateData,
+  migrateStorage,
+  parseBackupJson,
+  readStore,
+  SCHEMA_KEY,
+  SCHEMA_VERSION,
+  type StoreData,
+  writeStore,
+} from "./storage";
+
+// localStorage の代わり（キーの順序も保つ）
+const memoryStorage = () => {
+  const m = new Map<string, string>();
+  return {
+    get length() {
+      return m.size;
+    },
+    key: (i: number) => [...m.keys()][i] ?? null,
+    getItem: (k: string) => m.get(k) ?? null,
+    setItem: (k: string, v: string) => void m.set(k, v),
+    removeItem: (k: string) => void m.delete(k),
+    clear: () => m.clear(),
+  };
+};
+
+const backup = (data: StoreData, schemaVersion: unknown = SCHEMA_VERSION) =>
+  JSON.stringify({ kind: "appoint-maker/backup", schemaVersion, exportedAt: "2025-09-01T00:00:00.000Z", data });
+
+const codeOf = (f: () => unknown) => {
+  try {
+    f();
+  } catch (err) {
+    return err instanceof AppError ? err.key : "other";
+  }
+  return null;
+};
+
+describe("版の移行", () => {
+  const v0: StoreData = {
+    am_slots_a: [
+      { dateISO: "2025-09-25", start: 600, end: 660 },
+      { dateISO: "9/25", start: 600, end: 660 },
+      { dateISO: "2025-09-26", start: 700, end: 650 },
+    ],
+    am_templates_a: [{ id: "t1", content: "本文" }, { name: "id なし" }],
+    am_drafts_a: [{ id: "d1", name: "案件", slots: [{ dateISO: "2025-09-27", start: 0, end: 1500 }] }],
+  };
+
+  it("壊れた枠・テンプレを除き、id のない枠に id を振る", () => {
+    const out = migrateData(v0, 0);
+    const slots = out.am_slots_a as { id: string; dateISO: string }[];
+    expect(slots).toHaveLength(1);
+    expect(slots[0].dateISO).toBe("2025-09-25");
+    expect(typeof slots[0].id).toBe("string");
+    expect(out.am_templates_a).toEqual([{ id: "t1", name: "", content: "本文" }]);
+    expect(out.am_drafts_a).toEqual([{ id: "d1", name: "案件", slots: [] }]);
+  });
+
+  it("元のデータは変えない", () => {
+    const before = JSON.stringify(v0);
+    migrateData(v0, 0);
+    expect(JSON.stringify(v0)).toBe(before);
+  });
+
+  it("1 → 2：書き出し済みの仮押さえはそのとき開いていた案件の分にする", () => {
+    const record = { s1: { seq: 0, startMs: 0, endMs: 1, summary: "仮" } };
+    expect(
+      migrateData({ am_icsExports_a: record, am_activeDraftId_a: "d1", am_icsExports_b: record }, 1)
+    ).toEqual({ am_icsExports_a: { d1: record }, am_activeDraftId_a: "d1" });
+  });
+
+  it("現在の版のデータはそのまま", () => {
+    expect(migrateData(v0, SCHEMA_VERSION)).toEqual(v0);
+  });
+});
+
+describe("バックアップの読み込み", () => {
+  it("書き出したものはそのまま読める", () => {
+    const data = { am_slots_a: [{ id: "s1", dateISO: "2025-09-25", start: 600, end: 660 }] };
+    expect(parseBackupJson(backupToJson(data)).data).toEqual(data);
+  });
+
+  it("版数なし（0）のバックアップは移行してから返す", () => {
+    const { data } = parseBackupJson(backup({ am_slots_a: [{ dateISO: "x", start: 0, end: 1 }] }, 0));
+    expect(data).toEqual({ am_slots_a: [] });
+  });
+
+  it("不正な版数・新しい版は読まない", () => {
+    expect(codeOf(() => parseBackupJson(backup({}, "1")))).toBe("backup.error.badVersion");
+    expect(codeOf(() => parseBackupJson(backup({}, -1)))).toBe("backup.error.badVersion");
+    expect(codeOf(() => parseBackupJson(backup({}, 1.5)))).toBe("backup.error.badVersion");
+    expect(codeOf(() => parseBackupJson(backup({}, SCHEMA_VERSION + 1)))).toBe("backup.error.newer");
+  });
+
+  it("壊れたファイル・ほかのファイル・不明なキー", () => {
+    expect(codeOf(() => parseBackupJson("{"))).toBe("common.notJson");
+    expect(codeOf(() => parseBackupJson(JSON.stringify({ kind: "appoint-maker/templates" })))).toBe("backup.error.notBackup");
+    expect(codeOf(() => parseBackupJson(JSON.stringify({ kind: "appoint-maker/backup", schemaVersion: 1 })))).toBe(
+      "backup.error.noData"
+    );
+    expect(codeOf(() => parseBackupJson(backup({ other: 1 })))).toBe("backup.error.unknownKey");
+  });
+});
+
+describe("差分とマージ", () => {
+  const local: StoreData = {
+    am_slots_a: [{ id: "s1" }, { id: "s2" }],
+    am_tz_a: "Asia/Tokyo",
+    am_settings_a: { step: 15 },
+    am_notes_a: "手元だけ",
+  };
+  const incoming: StoreData = {
+    am_slots_a: [{ id: "s2" }, { id: "s3" }],
+    am_tz_a: "Europe/London",
+    am_settings_a: { step: 15 },
+    am_slots_b: null,
+  };
+
+  it("差分は追加・変更・バックアップにない・同じを値の要約つきで返す", () => {
+    expect(diffStore(local, incoming)).toEqual([
+      { key: "am_notes_a", uid: "a", name: "notes", kind: "removed", before: { kind: "value", value: "手元だけ" } },
+      { key: "am_settings_a", uid: "a", name: "settings", kind: "same", before: { kind: "settings" }, after: { kind: "settings" } },
+      {
+        key: "am_slots_a",
+        uid: "a",
+        name: "slots",
+        kind: "changed",
+        before: { kind: "count", n: 2 },
+        after: { kind: "count", n: 2 },
+      },
+      {
+        key: "am_tz_a",
+        uid: "a",
+        name: "tz",
+        kind: "changed",
+        before: { kind: "value", value: "Asia/Tokyo" },
+        after: { kind: "value", value: "Europe/London" },
+      },
+      { key: "am_slots_b", uid: "b", name: "slots", kind: "added", after: { kind: "none" } },
+    ]);
+  });
+
+  it("マージは手元を優先し、足りないキーと id の項目だけ足す", () => {
+    expect(mergeStore(local, incoming)).toEqual({
+      am_slots_a: [{ id: "s1" }, { id: "s2" }, { id: "s3" }],
+      am_tz_a: "Asia/Tokyo",
+      am_settings_a: { step: 15 },
+      am_notes_a: "手元だけ",
+      am_slots_b: null,
+    });
+  });
+
+  describe("保存領域", () => {
+    beforeEach(() => {
+      vi.stubGlobal("localStorage", memoryStorage());
+    });
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("置き換えはバックアップにないキーを消す", () => {
+      writeStore(local);
+      localStorage.setItem("other", "x");
+      writeStore(incoming);
+      expect(readStore()).toEqual(incoming);
+      expect(localStorage.getItem("other")).toBe("x");
+      expect(localStorage.getItem(SCHEMA_KEY)).toBe(String(SCHEMA_VERSION));
+    });
+
+    it("起動時の移行は古い版だけ書き戻し、新しい版には触らない", () => {
+      localStorage.setItem("am_slots_a", JSON.stringify([{ dateISO: "x", start: 0, end: 1 }]));
+      expect(migrateStorage()).toEqual({ from: 0, to: SCHEMA_VERSION, newer: false });
+      expect(readStore()).toEqual({ am_slots_a: [] });
+
+      // 移行で消えたキー（案件の分からない仮押さえ）は保存領域からも消す
+      localStorage.setItem(SCHEMA_KEY, "1");
+      localStorage.setItem("am_icsExports_a", JSON.stringify({ s1: { seq: 0, startMs: 0, endMs: 1, summary: "仮" } }));
+      migrateStorage();
+      expect(localStorage.getItem("am_icsExports_a")).toBeNull();
+
+      localStorage.setItem(SCHEMA_KEY, String(SCHEMA_VERSION + 1));
+      localStorage.setItem("am_slots_a", JSON.stringify([{ dateISO: "x", start: 0, end: 1 }]));
+      expect(migrateStorage()).toEqual({ from: SCHEMA_VERSION + 1, to: SCHEMA_VERSION + 1, newer: true });
+      expect(readStore().am_slots_a).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { AppError } from "./i18n";
+import type { Slot, Tpl } from "./types";
+
+/** ====== 保存データのスキーマ版・移行・バックアップ ======
+ * localStorage のキーは "am_<項目>_<uid>"。版数は全 uid 共通で SCHEMA_KEY に持つ
+ */
+export const SCHEMA_VERSION = 2;
+export const SCHEMA_KEY = "am__schema";
+const KEY_RE = /^am_([A-Za-z]+)_(.*)$/;
+
+// キー → JSON の値
+export type StoreData = Record<string, unknown>;
+
+export const splitKey = (key: string) => {
+  const m = KEY_RE.exec(key);
+  return m ? { name: m[1], uid: m[2] } : null;
+};
+
+/** ====== 移行手順（from 版 → from+1 版） ====== */
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+const fixSlots = (v: unknown): Slot[] =>
+  (Array.isArray(v) ? v : [])
+    .filter(
+      (s) =>
+        isObj(s) &&
+        typeof s.dateISO === "string" &&
+        /^\d{4}-\d{2}-\d{2}$/.test(s.dateISO) &&
+        typeof s.start === "number" &&
+        typeof s.end === "number" &&
+        0 <= s.start &&
+        s.start < s.end &&
+        s.end <= 1440
+    )
+    .map((s) => ({ ...s, id: typeof s.id === "string" && s.id ? s.id : crypto.randomUUID() }) as Slot);
+
+const fixTemplates = (v: unknown): Tpl[] =>
+  (Array.isArray(v) ? v : [])
+    .filter((t) => isObj(t) && typeof t.id === "string")
+    .map((t) => ({
+      ...t,
+      name: typeof t.name === "string" ? t.name : "",
+      content: typeof t.content === "string" ? t.content : "",
+    }) as Tpl);
+
+const MIGRATIONS: Record<number, (data: StoreData) => void> = {
+  // 0（版数なし）→ 1：壊れた枠・テンプレを取り除き、id のない枠に id を振る
+  0: (data) => {
+    for (const [key, value] of Object.entries(data)) {
+      const k = splitKey(key);
+      if (!k) continue;
+      if (k.name === "slots") data[key] = fixSlots(value);
+      else if (k.name === "templates") data[key] = fixTemplates(value);
+      else if (k.name === "drafts" && Array.isArray(value))
+        data[key] = value.filter(isObj).map((d) => ({ ...d, slots: fixSlots(d.slots) }));
+    }
+  },
+  // 1 → 2：書き出し済みの仮押さえ（uid ごと）を案件ごとにする（そのとき開いていた案件の分とみなす）
+  1: (data) => {
+    for (const [key, value] of Object.entries(data)) {
+      const k = splitKey(key);
+      if (!k || k.name !== "icsExports" || !isObj(value)) continue;
+      const draftId = data[`am_activeDraftId_${k.uid}`];
+      if (typeof draftId === "string" && draftId && Object.keys(value).length) data[key] = { [draftId]: value };
+      else delete data[key];
+    }
+  },
+};
+
+/** from 版のデータを現在の版まで移行（元の data は変えない） */
+export function migrateData(data: StoreData, from: number): StoreData {
+  const out = structuredClone(data);
+  for (let v = from; v < SCHEMA_VERSION; v++) MIGRATIONS[v]?.(out);
+  return out;
+}
+
+/** ====== localStorage ====== */
+export function readStore(): StoreData {
+  const out: StoreData = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !splitKey(key)) continue;
+    try {
+      out[key] = JSON.parse(localStorage.getItem(key) ?? "null");
+    } catch {}
+  }
+  return out;
+}
+
+export const storedVersion = () => Number(localStorage.getItem(SCHEMA_KEY) ?? 0) || 0;
+
+export type MigrateResult = { from: number; to: number; newer: boolean };
+
+/**
+ * 起動時に一度だけ呼ぶ。保存データが古ければ移行して書き戻す
+ * 新しい版のデータ（新しいアプリで保存済み）は触らず newer を返す
+ */
+export function migrateStorage(): MigrateResult {
+  try {
+    const from = storedVersion();
+    if (from > SCHEMA_VERSION) return { from, to: from, newer: true };
+    if (from < SCHEMA_VERSION) {
+      const before = readStore();
+      const after = migrateData(before, from);
+      for (const [key, value] of Object.entries(after)) {
+        if (JSON.stringify(value) !== JSON.stringify(before[key])) localStorage.setItem(key, JSON.stringify(value));
+      }
+      for (const key of Object.keys(before)) if (!(key in after)) localStorage.removeItem(key);
+      localStorage.setItem(SCHEMA_KEY, String(SCHEMA_VERSION));
+    }
+    return { from, to: SCHEMA_VERSION, newer: false };
+  } catch {
+    return { from: 0, to: 0, newer: false };
+  }
+}
+
+/** ====== バックアップ（全 uid） ====== */
+export type Backup = {
+  kind: "appoint-maker/backup";
+  schemaVersion: number;
+  exportedAt: string;
+  data: StoreData;
+};
+
+export const backupToJson = (data: StoreData) =>
+  JSON.stringify(
+    { kind: "appoint-maker/backup", schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), data } satisfies Backup,
+    null,
+    2
+  );
+
+/** バックアップファイルを検証して現在の版に移行したデータを返す（不正なら AppError） */
+export function parseBackupJson(text: string): { exportedAt: string; data: StoreData } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new AppError("common.notJson");
+  }
+  if (!isObj(raw) || raw.kind !== "appoint-maker/backup") throw new AppError("backup.error.notBackup");
+  const version = raw.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) throw new AppError("backup.error.badVersion");
+  if (version > SCHEMA_VERSION) throw new AppError("backup.error.newer", { version });
+  if (!isObj(raw.data)) throw new AppError("backup.error.noData");
+  for (const key of Object.keys(raw.data)) {
+    if (!splitKey(key)) throw new AppError("backup.error.unknownKey", { key });
+  }
+  return {
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    data: migrateData(raw.data, version),
+  };
+}
+
+/** ====== 差分 ====== */
+export type DiffKind = "added" | "changed" | "removed" | "same";
+// 値の要約（画面で t(`backup.value.${kind}`) にする。value はそのまま出す）
+export type DiffValue = { kind: "count"; n: number } | { kind: "none" } | { kind: "settings" } | { kind: "value"; value: string };
+// before / after は変更前後（追加は after だけ、バックアップにないものは before だけ）
+export type DiffRow = { key: string; uid: string; name: string; kind: DiffKind; before?: DiffValue; after?: DiffValue };
+
+const describe = (v: unknown): DiffValue =>
+  Array.isArray(v)
+    ? { kind: "count", n: v.length }
+    : v === null || v === undefined
+      ? { kind: "none" }
+      : isObj(v)
+        ? { kind: "settings" }
+        : { kind: "value", value: String(v) };
+
+/** 今の保存内容（local）とバックアップ（incoming）の違い */
+export function diffStore(local: StoreData, incoming: StoreData): DiffRow[] {
+  const keys = [...new Set([...Object.keys(local), ...Object.keys(incoming)])];
+  return keys
+    .map((key) => {
+      const k = splitKey(key)!;
+      const has = key in local;
+      const inc = key in incoming;
+      const kind: DiffKind = !has
+        ? "added"
+        : !inc
+          ? "removed"
+          : JSON.stringify(local[key]) === JSON.stringify(incoming[key])
+            ? "same"
+            : "changed";
+      return {
+        key,
+        uid: k.uid,
+        name: k.name,
+        kind,
+        ...(has ? { before: describe(local[key]) } : {}),
+        ...(inc ? { after: describe(incoming[key]) } : {}),
+      };
+    })
+    .sort((a, b) => (a.uid === b.uid ? a.name.localeCompare(b.name) : a.uid.localeCompare(b.uid)));
+}
+
+/**
+ * マージ：今のデータを優先し、バックアップにしかないキーと
+ * id 付きの一覧（候補・テンプレ・連絡先・案件など）の足りない項目を足す
+ */
+export function mergeStore(local: StoreData, incoming: StoreData): StoreData {
+  const out: StoreData = { ...local };
+  for (const [key, value] of Object.entries(incoming)) {
+    const cur = out[key];
+    if (!(key in out)) out[key] = value;
+    else if (Array.isArray(cur) && Array.isArray(value) && [...cur, ...value].every((x) => isObj(x) && typeof x.id === "string")) {
+      const ids = new Set(cur.map((x) => (x as { id: string }).id));
+      out[key] = [...cur, ...value.filter((x) => !ids.has((x as { id: string }).id))];
+    }
+  }
+  return out;
+}
+
+/** 保存領域を data で置き換える（am_* のキーはすべて書き直し） */
+export function writeStore(data: StoreData) {
+  for (const key of Object.keys(readStore())) if (!(key in data)) localStorage.removeItem(key);
+  for (const [key, value] of Object.entries(data)) localStorage.setItem(key, JSON.stringify(value));
+  localStorage.setItem(SCHEMA_KEY, String(SCHEMA_VERSION));
+}
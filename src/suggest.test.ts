@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { suggestSlots } from "./suggest";
+import type { Slot } from "./types";
+
+const slot = (dateISO: string, start: number, end: number): Slot => ({ id: `${dateISO}-${start}`, dateISO, start, end });
+
+describe("前後の余白", () => {
+  const rules = {
+    fromISO: "2025-09-25",
+    toISO: "2025-09-25",
+    weekdays: [3],
+    workStart: 540,
+    workEnd: 720,
+    lunchStart: 0,
+    lunchEnd: 0,
+    duration: 60,
+    leadMinutes: 0,
+    perDay: 5,
+    count: 5,
+    spread: false,
+  };
+  const ctx = {
+    todayISO: "2025-09-24",
+    nowMinutes: 0,
+    busy: () => [{ start: 600, end: 630, summary: "定例" }],
+    existing: [],
+  };
+  const starts = (list: { start: number }[]) => list.map((s) => s.start);
+
+  it("提案は予定・ほかの案件と余白ごと重ねない（文面の時間は会議そのもの）", () => {
+    expect(starts(suggestSlots(rules, ctx))).toEqual([540, 630]);
+    expect(starts(suggestSlots(rules, { ...ctx, buffer: { before: 30, after: 0 } }))).toEqual([540, 660]);
+    const held = { ...slot("2025-09-25", 660, 690), buffer: { before: 0, after: 0 } };
+    const withHeld = { ...ctx, busy: () => [], existing: [held], buffer: { before: 0, after: 30 } };
+    expect(starts(suggestSlots(rules, withHeld))).toEqual([540]);
+  });
+});
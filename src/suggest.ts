@@ -0,0 +1,114 @@
+import type { BusyRange } from "./ics";
+import { withBuffer } from "./slots";
+import type { Slot, SlotBuffer } from "./types";
+
+/** ====== 候補の自動提案（勤務時間ルール） ====== */
+export type SuggestRules = {
+  fromISO: string;       // 期間（両端含む）
+  toISO: string;
+  weekdays: number[];    // 対象曜日（月=0..日=6）
+  workStart: number;     // 勤務時間（分）
+  workEnd: number;
+  lunchStart: number;    // 昼休み（start >= end なら無し）
+  lunchEnd: number;
+  duration: number;      // 会議の長さ（分）
+  leadMinutes: number;   // 現在から最低何分後以降
+  perDay: number;        // 1日あたりの上限
+  count: number;         // 提案する件数
+  spread: boolean;       // 日をばらけさせる
+};
+
+export type SuggestContext = {
+  todayISO: string;      // 自分のゾーンでの今日
+  nowMinutes: number;    // 自分のゾーンでの現在時刻（分）
+  busy: (dateISO: string) => BusyRange[] | undefined;
+  existing: (Slot & { buffer?: SlotBuffer })[]; // 既に出している候補（重ねない。buffer はほかの案件の前後の余白）
+  buffer?: SlotBuffer;   // 提案する枠の前後に空ける時間
+  excludeDate?: (dateISO: string) => boolean;
+};
+
+const START_ALIGN = 30; // 開始は 00分/30分 にそろえる
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoOfDayNum = (n: number) => {
+  const d = new Date(n * DAY_MS);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+const dayNumOf = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const overlaps = (a: { start: number; end: number }, s: number, e: number) => a.start < e && s < a.end;
+// 接しているだけでもマージされてしまうので候補同士・既存候補とは間を空ける
+const touches = (a: { start: number; end: number }, s: number, e: number) => a.start <= e && s <= a.end;
+
+// その日に置ける開始時刻（早い順）
+function dayCandidates(iso: string, r: SuggestRules, ctx: SuggestContext, leadDayNum: number, leadMin: number) {
+  const out: number[] = [];
+  const dn = dayNumOf(iso);
+  if (dn < leadDayNum) return out;
+  const busy = ctx.busy(iso) ?? [];
+  const taken = ctx.existing.filter((s) => s.dateISO === iso);
+  const first = Math.ceil(r.workStart / START_ALIGN) * START_ALIGN;
+  for (let st = first; st + r.duration <= r.workEnd; st += START_ALIGN) {
+    const en = st + r.duration;
+    if (dn === leadDayNum && st < leadMin) continue;
+    if (r.lunchStart < r.lunchEnd && overlaps({ start: r.lunchStart, end: r.lunchEnd }, st, en)) continue;
+    // 予定・ほかの案件とは前後の余白も含めて重ねない
+    const around = withBuffer({ start: st, end: en }, ctx.buffer);
+    if (busy.some((b) => overlaps(b, around.start, around.end))) continue;
+    const clash = (s: (typeof taken)[number]) =>
+      s.buffer ? overlaps(withBuffer(s, s.buffer), around.start, around.end) : touches(s, st, en);
+    if (taken.some(clash)) continue;
+    out.push(st);
+  }
+  return out;
+}
+
+/** ルールに沿って候補を作る（既存候補・予定とは重ならない） */
+export function suggestSlots(r: SuggestRules, ctx: SuggestContext) {
+  // 最短の開始（今 + リードタイム）を日付＋分に換算
+  const leadTotal = ctx.nowMinutes + r.leadMinutes;
+  const leadDayNum = dayNumOf(ctx.todayISO) + Math.floor(leadTotal / 1440);
+  const leadMin = leadTotal % 1440;
+
+  const days: { iso: string; starts: number[]; picked: number[] }[] = [];
+  for (let dn = dayNumOf(r.fromISO); dn <= dayNumOf(r.toISO); dn++) {
+    const iso = isoOfDayNum(dn);
+    const wd = (new Date(dn * DAY_MS).getUTCDay() + 6) % 7;
+    if (!r.weekdays.includes(wd) || ctx.excludeDate?.(iso)) continue;
+    const starts = dayCandidates(iso, r, ctx, leadDayNum, leadMin);
+    if (starts.length) days.push({ iso, starts, picked: [] });
+  }
+
+  const result: { dateISO: string; start: number; end: number }[] = [];
+  // その日でまだ選んだ枠と重ならない最初の開始時刻を取る
+  const pickFrom = (day: (typeof days)[number]) => {
+    if (day.picked.length >= r.perDay) return false;
+    const st = day.starts.find((s) => day.picked.every((p) => !touches({ start: p, end: p + r.duration }, s, s + r.duration)));
+    if (st === undefined) return false;
+    day.picked.push(st);
+    result.push({ dateISO: day.iso, start: st, end: st + r.duration });
+    return true;
+  };
+
+  if (r.spread) {
+    // 1日1件ずつ順番に配る
+    let progressed = true;
+    while (result.length < r.count && progressed) {
+      progressed = false;
+      for (const day of days) {
+        if (result.length >= r.count) break;
+        if (pickFrom(day)) progressed = true;
+      }
+    }
+  } else {
+    for (const day of days) {
+      while (result.length < r.count && pickFrom(day));
+      if (result.length >= r.count) break;
+    }
+  }
+  return result.sort((a, b) => (a.dateISO === b.dateISO ? a.start - b.start : a.dateISO.localeCompare(b.dateISO)));
+}
@@ -0,0 +1,38 @@
+/** ====== Service Worker：アプリ本体（app shell）を端末に置いてオフラインでも開けるようにする ======
+ * vite build 時に vite.config.ts が __VERSION__ / __PRECACHE__ を埋めて dist/sw.js として出す
+ */
+const VERSION = __VERSION__;
+const PRECACHE = __PRECACHE__;
+const CACHE = `appoint-shell-${VERSION}`;
+
+// 新しい版は入れておくだけ。画面の「更新」で切り替える（skipWaiting はメッセージで）
+self.addEventListener("install", (e) => {
+  e.waitUntil(caches.open(CACHE).then((c) => c.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (e) => {
+  e.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("appoint-shell-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (e) => {
+  if (e.data === "skipWaiting") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (e) => {
+  const req = e.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  // 同期サーバーなど別オリジンへのリクエストはそのまま
+  if (url.origin !== self.location.origin) return;
+  // 画面の読み込みはクエリ（?uid= / 共有の受け取り）に関係なく、入れておいた index.html を返す
+  if (req.mode === "navigate") {
+    e.respondWith(caches.match("./index.html", { cacheName: CACHE }).then((res) => res || fetch(req)));
+    return;
+  }
+  e.respondWith(caches.match(req, { cacheName: CACHE }).then((res) => res || fetch(req)));
+});
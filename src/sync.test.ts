@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { StoreData } from "./storage";
+import { emptySyncState, handleSyncRequest, mergeValue, type SyncState, type SyncStore, syncWithServer } from "./sync";
+
+const item = (id: string, extra: object = {}) => ({ id, ...extra });
+
+describe("mergeValue", () => {
+  it("片側だけ変わったらその側を採る", () => {
+    expect(mergeValue("a", "a", "b")).toBe("b");
+    expect(mergeValue("a", "b", "a")).toBe("b");
+    expect(mergeValue(1, 2, 3)).toBe(3);
+  });
+
+  it("id 付きの一覧は項目ごとに追加・変更・削除をまとめる", () => {
+    const base = [item("a", { v: 1 }), item("b", { v: 1 }), item("c", { v: 1 })];
+    const local = [item("a", { v: 2 }), item("b", { v: 1 }), item("x")]; // a を変更・c を削除・x を追加
+    const remote = [item("a", { v: 1 }), item("c", { v: 1 }), item("y")]; // b を削除・y を追加
+    expect(mergeValue(base, local, remote)).toEqual([item("a", { v: 2 }), item("x"), item("y")]);
+  });
+
+  it("両側で変えた項目は更新時刻の新しい方、消した項目も相手が変えていれば残す", () => {
+    const base = [item("a", { v: 1, updatedAt: 1 }), item("b", { v: 1 })];
+    const local = [item("a", { v: 2, updatedAt: 3 })];
+    const remote = [item("a", { v: 3, updatedAt: 2 }), item("b", { v: 2 })];
+    expect(mergeValue(base, local, remote)).toEqual([item("a", { v: 2, updatedAt: 3 }), item("b", { v: 2 })]);
+  });
+
+  it("オブジェクトはキーごと", () => {
+    expect(mergeValue({ a: 1, b: 1 }, { a: 2, b: 1 }, { a: 1, b: 3, c: 1 })).toEqual({ a: 2, b: 3, c: 1 });
+  });
+});
+
+describe("同期サーバー", () => {
+  const store: SyncStore = new Map();
+  // handleSyncRequest をそのまま呼ぶ fetch
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+    const out = handleSyncRequest(store, init?.method ?? "GET", new URL(url).pathname, body);
+    return new Response(JSON.stringify(out.body), { status: out.status });
+  };
+  const opts = { url: "http://sync.test/", uid: "u1" };
+  const device = () => ({ state: emptySyncState() as SyncState, data: {} as StoreData });
+  const sync = async (d: ReturnType<typeof device>) => {
+    const r = await syncWithServer(opts, d.state, d.data, fetchImpl);
+    d.state = r.state;
+    d.data = r.data;
+  };
+
+  it("2台の変更を項目ごとにまとめ、先に書かれていたら取り直してマージする", async () => {
+    const phone = device();
+    const laptop = device();
+    phone.data = { am_slots_u1: [item("a")], am_toName_u1: "山田" };
+    await sync(phone);
+    await sync(laptop);
+    expect(laptop.data).toEqual(phone.data);
+
+    laptop.data = { ...laptop.data, am_slots_u1: [item("a"), item("b")] };
+    phone.data = { ...phone.data, am_slots_u1: [item("a"), item("c")] };
+    await sync(laptop);
+    await sync(phone);
+    expect(phone.data.am_slots_u1).toEqual([item("a"), item("c"), item("b")]);
+    await sync(laptop);
+    expect(laptop.data).toEqual(phone.data);
+    expect(store.get("u1")?.rev).toBe(3);
+  });
+
+  it("古い版からの書き込みは 409、ほかの uid のキーは受け付けない", () => {
+    const s: SyncStore = new Map([["u1", { rev: 2, data: {} }]]);
+    expect(handleSyncRequest(s, "PUT", "/uids/u1", { baseRev: 1, data: {} }).status).toBe(409);
+    expect(handleSyncRequest(s, "PUT", "/uids/u1", { baseRev: 2, data: { am_slots_u2: [] } }).status).toBe(400);
+    expect(handleSyncRequest(s, "PUT", "/uids/u1", { baseRev: 2, data: { am_slots_u1: [] } })).toEqual({
+      status: 200,
+      body: { rev: 3 },
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { AppError } from "./i18n";
+import { splitKey, type StoreData } from "./storage";
+
+/** ====== 同期：タブ間（storage イベント）と端末間（同期サーバー） ======
+ * どちらも「最後に揃っていた内容（base）」との3方向マージで、変わった側を項目ごとに採る
+ */
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+type Item = { id: string; updatedAt?: unknown };
+const isItemList = (v: unknown): v is Item[] =>
+  Array.isArray(v) && v.every((x) => isObj(x) && typeof x.id === "string");
+
+// 両側で変わった項目：更新時刻があれば新しい方、なければ後から届いた方（remote）
+const newer = (local: Item, remote: Item) =>
+  typeof local.updatedAt === "number" && typeof remote.updatedAt === "number" && local.updatedAt > remote.updatedAt
+    ? local
+    : remote;
+
+// id 付きの一覧：追加・変更・削除を項目ごとに。並びは remote に合わせ、local だけの項目は local で手前にあった項目の後ろへ
+function mergeItems(base: Item[], local: Item[], remote: Item[]) {
+  const b = new Map(base.map((x) => [x.id, x]));
+  const l = new Map(local.map((x) => [x.id, x]));
+  const r = new Map(remote.map((x) => [x.id, x]));
+  const pick = (id: string): Item | undefined => {
+    const bi = b.get(id);
+    const li = l.get(id);
+    const ri = r.get(id);
+    if (li && ri) return same(li, ri) || same(bi, li) ? ri : same(bi, ri) ? li : newer(li, ri);
+    // 片側で消えた項目は、もう片側で手を入れていなければ消す
+    if (li) return bi && same(bi, li) ? undefined : li;
+    if (ri) return bi && same(bi, ri) ? undefined : ri;
+    return undefined;
+  };
+  const out: Item[] = [];
+  for (const x of remote) {
+    const v = pick(x.id);
+    if (v) out.push(v);
+  }
+  local.forEach((x, i) => {
+    if (r.has(x.id)) return;
+    const v = pick(x.id);
+    if (!v) return;
+    let at = 0;
+    for (let j = i - 1; j >= 0 && !at; j--) at = out.findIndex((y) => y.id === local[j].id) + 1;
+    out.splice(at, 0, v);
+  });
+  return out;
+}
+
+// 片側にしかないキー・項目：もう片側が消したのでなければ残す
+const pickOne = (base: unknown, local: unknown, remote: unknown) => {
+  const v = local !== undefined ? local : remote;
+  return base !== undefined && same(base, v) ? undefined : v;
+};
+
+/**
+ * 1つの値の3方向マージ（base は最後に揃っていた値。わからなければ undefined）
+ * id 付きの一覧は項目ごと、オブジェクトはキーごと。それ以外で両側が変わったら remote
+ */
+export function mergeValue(base: unknown, local: unknown, remote: unknown): unknown {
+  if (same(local, remote) || same(base, local)) return remote;
+  if (same(base, remote)) return local;
+  if (isItemList(local) && isItemList(remote) && (base === undefined || isItemList(base))) {
+    return mergeItems(base ?? [], local, remote);
+  }
+  if (isObj(local) && isObj(remote) && (base === undefined || isObj(base))) {
+    const out: Record<string, unknown> = {};
+    for (const k of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+      const b = base?.[k];
+      const v = k in local && k in remote ? mergeValue(b, local[k], remote[k]) : pickOne(b, local[k], remote[k]);
+      if (v !== undefined) out[k] = v;
+    }
+    return out;
+  }
+  return remote;
+}
+
+/** 保存内容どうしの3方向マージ（キーごと。消えたキーは相手が変えていなければ消す） */
+export function mergeStoreData(base: StoreData, local: StoreData, remote: StoreData): StoreData {
+  const out: StoreData = {};
+  for (const key of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+    const [b, l, r] = [base[key], local[key], remote[key]];
+    const v = key in local && key in remote ? mergeValue(b, l, r) : pickOne(b, l, r);
+    if (v !== undefined) out[key] = v;
+  }
+  return out;
+}
+
+/** ====== 同期の対象 ====== */
+// 端末・タブごとの表示状態（表示中の年月・日付・レイアウト）は同期しない
+export const LOCAL_ONLY = ["year", "month", "activeDate", "layout", "weekLength"];
+
+export const isSyncedKey = (key: string, uid: string) => {
+  const k = splitKey(key);
+  return !!k && k.uid === uid && !LOCAL_ONLY.includes(k.name);
+};
+
+export const syncedData = (data: StoreData, uid: string): StoreData =>
+  Object.fromEntries(Object.entries(data).filter(([key]) => isSyncedKey(key, uid)));
+
+/** ====== 同期サーバーとのやりとり ======
+ * GET  <url>/uids/<uid>  → 200 { rev, data }（まだなければ rev 0）
+ * PUT  <url>/uids/<uid>  { baseRev, data } → 200 { rev } / 409 { rev, data }（先に別の端末が書いた）
+ * token があれば Authorization: Bearer で送る
+ */
+export type SyncDoc = { rev: number; data: StoreData };
+export type SyncState = { rev: number; base: StoreData; at: number };
+
+export const SYNC_SETTINGS_KEY = (uid: string) => `am__sync_${uid}`;
+export const SYNC_STATE_KEY = (uid: string) => `am__syncstate_${uid}`;
+
+export const emptySyncState = (): SyncState => ({ rev: 0, base: {}, at: 0 });
+
+type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+const MAX_RETRY = 3;
+
+/**
+ * 1回同期する：サーバーの内容と手元（local）を base で3方向マージし、変わっていれば書き戻す
+ * 返り値の data を手元に反映し、state を次回の base として保存する
+ */
+export async function syncWithServer(
+  opts: { url: string; uid: string; token?: string },
+  state: SyncState,
+  local: StoreData,
+  fetchImpl: Fetch = fetch
+): Promise<{ data: StoreData; state: SyncState }> {
+  const endpoint = `${opts.url.replace(/\/+$/, "")}/uids/${encodeURIComponent(opts.uid)}`;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (opts.token) headers.Authorization = `Bearer ${opts.token}`;
+  const fail = (res: Response): never => {
+    throw new AppError("sync.error.badResponse", { status: `${res.status}${res.statusText ? ` ${res.statusText}` : ""}` });
+  };
+
+  const res = await fetchImpl(endpoint, { headers });
+  if (!res.ok) return fail(res);
+  let remote = (await res.json()) as SyncDoc;
+  for (let i = 0; i < MAX_RETRY; i++) {
+    const data = mergeStoreData(state.base, local, syncedData(remote.data ?? {}, opts.uid));
+    // サーバーと同じになったら書き戻さない
+    if (same(data, remote.data)) {
+      return { data, state: { rev: remote.rev, base: data, at: Date.now() } };
+    }
+    const put = await fetchImpl(endpoint, { method: "PUT", headers, body: JSON.stringify({ baseRev: remote.rev, data }) });
+    if (put.ok) {
+      const { rev } = (await put.json()) as { rev: number };
+      return { data, state: { rev, base: data, at: Date.now() } };
+    }
+    // 先に別の端末が書いていたら、その内容ともう一度マージする
+    if (put.status !== 409) return fail(put);
+    remote = (await put.json()) as SyncDoc;
+  }
+  throw new AppError("sync.error.busy");
+}
+
+/** ====== サーバー側（src/syncServer.ts とテストで共通） ====== */
+export type SyncStore = Map<string, SyncDoc>;
+export type SyncResponse = { status: number; body: unknown };
+
+/** 1リクエストを処理（uid ごとに版数 rev を持ち、古い版からの書き込みは 409 で最新を返す） */
+export function handleSyncRequest(store: SyncStore, method: string, path: string, body: unknown): SyncResponse {
+  const m = /^\/uids\/([^/]+)$/.exec(path);
+  if (!m) return { status: 404, body: { error: "not found" } };
+  const uid = decodeURIComponent(m[1]);
+  const doc = store.get(uid) ?? { rev: 0, data: {} };
+  if (method === "GET") return { status: 200, body: doc };
+  if (method !== "PUT") return { status: 405, body: { error: "method not allowed" } };
+  if (!isObj(body) || typeof body.baseRev !== "number" || !isObj(body.data)) {
+    return { status: 400, body: { error: "baseRev and data are required" } };
+  }
+  if (body.baseRev !== doc.rev) return { status: 409, body: doc };
+  // その uid の保存キー以外は受け付けない
+  const bad = Object.keys(body.data).find((key) => !isSyncedKey(key, uid));
+  if (bad) return { status: 400, body: { error: `not a key of this uid: ${bad}` } };
+  const next = { rev: doc.rev + 1, data: body.data };
+  store.set(uid, next);
+  return { status: 200, body: { rev: next.rev } };
+}
+
+/** ====== 手元（ブラウザ）側 ====== */
+export function loadSyncState(uid: string): SyncState {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SYNC_STATE_KEY(uid)) ?? "null");
+    if (isObj(raw) && typeof raw.rev === "number" && isObj(raw.base)) return raw as SyncState;
+  } catch {}
+  return emptySyncState();
+}
+
+export const saveSyncState = (uid: string, state: SyncState) =>
+  localStorage.setItem(SYNC_STATE_KEY(uid), JSON.stringify(state));
+
+/**
+ * 同期の結果（received）を localStorage に反映し、開いている画面へ storage イベントで知らせる
+ * 同期している間に手元で変わったキーは、送った内容（sent）を base にもう一度マージする
+ */
+export function applySyncedData(sent: StoreData, received: StoreData) {
+  for (const key of new Set([...Object.keys(sent), ...Object.keys(received)])) {
+    const oldValue = localStorage.getItem(key);
+    const current = oldValue === null ? undefined : JSON.parse(oldValue);
+    const value = same(current, sent[key])
+      ? received[key]
+      : received[key] === undefined
+        ? current
+        : mergeValue(sent[key], current, received[key]);
+    const newValue = value === undefined ? null : JSON.stringify(value);
+    if (newValue === oldValue) continue;
+    if (newValue === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, newValue);
+    window.dispatchEvent(new StorageEvent("storage", { key, oldValue, newValue, storageArea: localStorage }));
+  }
+}
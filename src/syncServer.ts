@@ -0,0 +1,113 @@
+import { timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+import { handleSyncRequest, type SyncDoc, type SyncStore } from "./sync";
+
+/** ====== 同期サーバー（自分で立てる用の最小実装・動作確認用） ====== */
+const USAGE = `使い方: npm run sync-server -- [オプション]
+
+  --port <n>       待ち受けるポート（既定：8787）
+  --host <addr>    待ち受けるアドレス（既定：127.0.0.1。スマホから使うなら 0.0.0.0）
+  --file <path>    保存先の JSON（省略時はメモリだけ）
+  --token <text>   Authorization: Bearer <text> のリクエストだけ受け付ける
+`;
+
+const MAX_BODY = 5 * 1024 * 1024;
+
+// トークンの比較（長さ以外で所要時間が変わらないように）
+const sameToken = (given: string, expected: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const fail = (msg: string): never => {
+  process.stderr.write(`${msg}\n`);
+  process.exit(1);
+};
+
+function main() {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        port: { type: "string" },
+        host: { type: "string" },
+        file: { type: "string" },
+        token: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    }).values;
+  } catch (err) {
+    return fail(`${(err as Error).message}\n\n${USAGE}`);
+  }
+  if (args.help) return void process.stdout.write(USAGE);
+  const port = Number(args.port ?? 8787);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) return fail(`ポートが不正です：${args.port}`);
+  const host = args.host ?? "127.0.0.1";
+  const { file, token } = args;
+
+  const store: SyncStore = new Map();
+  if (file && existsSync(file)) {
+    try {
+      for (const [uid, doc] of Object.entries(JSON.parse(readFileSync(file, "utf8")) as Record<string, SyncDoc>)) {
+        store.set(uid, doc);
+      }
+    } catch (err) {
+      fail(`保存先を読み込めませんでした：${(err as Error).message}`);
+    }
+  }
+  const save = () => {
+    if (file) writeFileSync(file, JSON.stringify(Object.fromEntries(store), null, 2));
+  };
+
+  const server = createServer((req, res) => {
+    // ブラウザ（別のオリジン）から呼べるようにする
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method === "OPTIONS") return void res.writeHead(204).end();
+    if (token && !sameToken(req.headers.authorization ?? "", `Bearer ${token}`)) {
+      return send(401, { error: "unauthorized" });
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on("data", (c: Buffer) => {
+      if (tooLarge) return;
+      size += c.length;
+      if (size <= MAX_BODY) return void chunks.push(c);
+      // 大きすぎる本文は 413 を返してから接続を切る
+      tooLarge = true;
+      res.setHeader("Connection", "close");
+      send(413, { error: "payload too large" });
+      res.on("finish", () => req.destroy());
+    });
+    req.on("end", () => {
+      if (tooLarge) return;
+      let body: unknown = null;
+      if (chunks.length) {
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+        } catch {
+          return send(400, { error: "invalid JSON" });
+        }
+      }
+      const path = new URL(req.url ?? "/", "http://localhost").pathname;
+      const out = handleSyncRequest(store, req.method ?? "GET", path, body);
+      if (req.method === "PUT" && out.status === 200) save();
+      send(out.status, out.body);
+    });
+  });
+  server.listen(port, host, () => {
+    process.stdout.write(`同期サーバー：http://${host}:${port}${file ? `（保存先：${file}）` : "（メモリのみ）"}\n`);
+  });
+}
+
+main();
@@ -0,0 +1,233 @@
+import { type Locale, MONTHS, WEEKDAYS } from "./locale";
+import type { ListFormat, Slot, TplVar } from "./types";
+
+/** ====== テンプレ言語 ======
+ * {{変数}}                      差し込み
+ * {{#if 変数}}…{{else}}…{{/if}}   値が空でなければ
+ * {{#if 変数 == 値}}…{{/if}}      値の一致（!= も可）
+ * {{#unless 変数}}…{{/unless}}    値が空なら
+ */
+export const BUILTIN_VARS = ["宛先名", "候補一覧", "テンプレ名", "会社名", "敬称", "確定日時"];
+
+// 英語テンプレ用の別名（中身は同じ組み込み変数）
+export const BUILTIN_VAR_ALIASES: Record<string, string> = {
+  name: "宛先名",
+  candidates: "候補一覧",
+  template: "テンプレ名",
+  company: "会社名",
+  honorific: "敬称",
+  confirmed: "確定日時",
+};
+
+// 組み込み変数の値に別名を足す
+export const withAliases = (values: Record<string, string>) => ({
+  ...values,
+  ...Object.fromEntries(Object.entries(BUILTIN_VAR_ALIASES).map(([alias, name]) => [alias, values[name] ?? ""])),
+});
+
+type Cond = { name: string; op?: "==" | "!="; value?: string };
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "var"; name: string; raw: string }
+  | { kind: "if"; tag: "if" | "unless"; cond: Cond; then: Node[]; else: Node[] };
+type IfNode = Extract<Node, { kind: "if" }>;
+
+// 文言は App / CLI で t(`tpl.error.${code}`, params) にする
+export type TplErrorCode = "unknownVar" | "badCond" | "strayElse" | "strayClose" | "mismatch" | "badTag" | "unclosed";
+export type TplError = { line: number; code: TplErrorCode; params?: Record<string, string | number> };
+
+const TAG = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function parseCond(s: string): Cond | null {
+  const m = /^([^\s=!"]+)(?:\s*(==|!=)\s*(?:"([^"]*)"|(\S.*)))?$/.exec(s.trim());
+  if (!m) return null;
+  return m[2] ? { name: m[1], op: m[2] as Cond["op"], value: m[3] ?? m[4] ?? "" } : { name: m[1] };
+}
+
+export function parseTemplate(src: string, known: Set<string>) {
+  const errors: TplError[] = [];
+  const root: Node[] = [];
+  const stack: { node: IfNode; inElse: boolean; line: number }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+  const lineAt = (i: number) => src.slice(0, i).split("\n").length;
+  const unknown = (name: string, line: number) => {
+    if (!known.has(name)) errors.push({ line, code: "unknownVar", params: { name } });
+  };
+
+  let last = 0;
+  for (const m of src.matchAll(TAG)) {
+    const idx = m.index ?? 0;
+    if (idx > last) target().push({ kind: "text", text: src.slice(last, idx) });
+    last = idx + m[0].length;
+    const body = m[1];
+    const line = lineAt(idx);
+
+    const open = /^#(if|unless)\s+(.+)$/.exec(body);
+    const close = /^\/(if|unless)$/.exec(body);
+    if (open) {
+      const cond = parseCond(open[2]);
+      if (!cond) {
+        errors.push({ line, code: "badCond", params: { body } });
+        continue;
+      }
+      unknown(cond.name, line);
+      const node: IfNode = { kind: "if", tag: open[1] as IfNode["tag"], cond, then: [], else: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, line });
+    } else if (body === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) errors.push({ line, code: "strayElse" });
+      else top.inElse = true;
+    } else if (close) {
+      const top = stack[stack.length - 1];
+      if (!top) errors.push({ line, code: "strayClose", params: { tag: close[1] } });
+      else {
+        if (top.node.tag !== close[1]) {
+          errors.push({ line, code: "mismatch", params: { open: top.node.tag, openLine: top.line, close: close[1] } });
+        }
+        stack.pop();
+      }
+    } else if (body && !/^[#/]/.test(body)) {
+      unknown(body, line);
+      target().push({ kind: "var", name: body, raw: m[0] });
+    } else {
+      errors.push({ line, code: "badTag", params: { tag: m[0] } });
+      target().push({ kind: "text", text: m[0] });
+    }
+  }
+  if (last < src.length) target().push({ kind: "text", text: src.slice(last) });
+  for (const s of stack) {
+    errors.push({ line: s.line, code: "unclosed", params: { tag: s.node.tag } });
+  }
+  return { nodes: root, errors };
+}
+
+function renderNodes(nodes: Node[], values: Record<string, string>): string {
+  let out = "";
+  for (const n of nodes) {
+    if (n.kind === "text") out += n.text;
+    else if (n.kind === "var") out += n.name in values ? values[n.name] : n.raw; // 未定義はそのまま残す
+    else {
+      const v = (values[n.cond.name] ?? "").trim();
+      let ok = n.cond.op === "==" ? v === n.cond.value : n.cond.op === "!=" ? v !== n.cond.value : v !== "";
+      if (n.tag === "unless") ok = !ok;
+      out += renderNodes(ok ? n.then : n.else, values);
+    }
+  }
+  return out;
+}
+
+/** テンプレを展開（エラーがあっても可能な範囲で出力する） */
+export function renderTemplate(src: string, values: Record<string, string>) {
+  const { nodes, errors } = parseTemplate(src, new Set(Object.keys(values)));
+  return { text: renderNodes(nodes, values), errors };
+}
+
+// 変数名として使えるか（波括弧・空白・#/ 始まり・組み込み名は不可）
+export const isValidVarName = (name: string) =>
+  /^[^\s{}#/=!"][^\s{}=!"]*$/.test(name) && !BUILTIN_VARS.includes(name) && !Object.keys(BUILTIN_VAR_ALIASES).includes(name);
+
+export const varValues = (vars: TplVar[] | undefined) =>
+  Object.fromEntries((vars ?? []).filter((v) => isValidVarName(v.name)).map((v) => [v.name, v.value]));
+
+/** ====== 候補一覧の書式 ====== */
+export const DEFAULT_LIST_FORMAT: ListFormat = {
+  datePattern: "M月D日（ddd）",
+  bullet: "・",
+  separator: "、",
+  layout: "byDay",
+};
+
+export const DEFAULT_LIST_FORMATS: Record<Locale, ListFormat> = {
+  ja: DEFAULT_LIST_FORMAT,
+  en: { datePattern: "ddd, MMM D", bullet: "- ", separator: ", ", layout: "byDay" },
+};
+
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+// "2025-09-25" を書式パターンで整形（ddd・MMM は locale の曜日・月名）
+export function formatDate(iso: string, pattern: string, locale: Locale = "ja") {
+  const [y, m, d] = iso.split("-").map(Number);
+  const wd = (new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7;
+  const tokens: Record<string, string> = {
+    YYYY: `${y}`,
+    MMM: MONTHS[locale][m - 1],
+    MM: pad(m),
+    M: `${m}`,
+    DD: pad(d),
+    D: `${d}`,
+    ddd: WEEKDAYS[locale][wd],
+  };
+  return pattern.replace(/YYYY|MMM|MM|M|DD|D|ddd/g, (t) => tokens[t]);
+}
+
+const NO_CANDIDATES: Record<Locale, string> = { ja: "（候補なし）", en: "(no times available)" };
+export const DATE_TIME_SEP: Record<Locale, string> = { ja: "：", en: ": " };
+
+// 候補一覧の1行（byDay は日ごと・perSlot は1枠ごと）
+export type CandidateRow = { date: string; times: string[] };
+
+export function candidateRows(
+  slots: Slot[],
+  fmt: ListFormat,
+  timeLabel: (s: Slot) => string,
+  locale: Locale = "ja"
+): CandidateRow[] {
+  if (fmt.layout === "perSlot") {
+    return slots.map((s) => ({ date: formatDate(s.dateISO, fmt.datePattern, locale), times: [timeLabel(s)] }));
+  }
+  const grouped: Record<string, Slot[]> = {};
+  slots.forEach((s) => ((grouped[s.dateISO] ??= []).push(s)));
+  return Object.keys(grouped)
+    .sort()
+    .map((iso) => ({ date: formatDate(iso, fmt.datePattern, locale), times: grouped[iso].map(timeLabel) }));
+}
+
+/** 候補一覧テキスト（timeLabel で1枠分の時間表記を作る） */
+export function formatCandidateList(
+  slots: Slot[],
+  fmt: ListFormat,
+  timeLabel: (s: Slot) => string,
+  locale: Locale = "ja"
+) {
+  if (slots.length === 0) return NO_CANDIDATES[locale];
+  const sep = DATE_TIME_SEP[locale];
+  return candidateRows(slots, fmt, timeLabel, locale)
+    .map((r, i) => `${fmt.bullet.split("{n}").join(`${i + 1}`)}${r.date}${sep}${r.times.join(fmt.separator)}`)
+    .join("\n");
+}
+
+/** ====== 候補一覧の別表記（HTML メール / Markdown・Slack） ====== */
+export const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+// 行頭記号に {n} があれば番号付きの一覧にする
+const numbered = (fmt: ListFormat) => fmt.bullet.includes("{n}");
+
+export function candidateListHtml(rows: CandidateRow[], fmt: ListFormat, locale: Locale = "ja") {
+  if (rows.length === 0) return escapeHtml(NO_CANDIDATES[locale]);
+  const tag = numbered(fmt) ? "ol" : "ul";
+  const sep = escapeHtml(DATE_TIME_SEP[locale]);
+  const items = rows.map(
+    (r) => `<li><strong>${escapeHtml(r.date)}</strong>${sep}${escapeHtml(r.times.join(fmt.separator))}</li>`
+  );
+  return `<${tag}>${items.join("")}</${tag}>`;
+}
+
+// Markdown は **太字**、Slack は *太字*
+export function candidateListMarkdown(
+  rows: CandidateRow[],
+  fmt: ListFormat,
+  locale: Locale = "ja",
+  flavor: "markdown" | "slack" = "markdown"
+) {
+  if (rows.length === 0) return NO_CANDIDATES[locale];
+  const bold = flavor === "slack" ? "*" : "**";
+  const sep = DATE_TIME_SEP[locale];
+  return rows
+    .map((r, i) => `${numbered(fmt) ? `${i + 1}. ` : "- "}${bold}${r.date}${bold}${sep}${r.times.join(fmt.separator)}`)
+    .join("\n");
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { AppError } from "./i18n";
+import {
+  applyEdit,
+  duplicateTpl,
+  mergeTemplates,
+  moveTpl,
+  parseTemplatesJson,
+  restoreRevision,
+  snapshot,
+  templatesToJson,
+} from "./tplLibrary";
+import type { Tpl } from "./types";
+
+const T0 = Date.UTC(2025, 8, 1);
+const MIN = 60 * 1000;
+
+const tpl = (id: string, content = "本文", extra: Partial<Tpl> = {}): Tpl => ({ id, name: id, content, ...extra });
+
+const codeOf = (f: () => unknown) => {
+  try {
+    f();
+  } catch (err) {
+    return err instanceof AppError ? [err.key, err.params] : "other";
+  }
+  return null;
+};
+
+describe("名前の変更と版の履歴", () => {
+  it("名前を変えると変更前が版として残り、続けての編集は1版にまとめる", () => {
+    const a = applyEdit(tpl("a"), { name: "新規向け" }, T0);
+    expect(a.name).toBe("新規向け");
+    expect(a.history?.map((r) => r.name)).toEqual(["a"]);
+    const b = applyEdit(a, { name: "新規向け（改）" }, T0 + MIN);
+    expect(b.history).toHaveLength(1);
+    const c = applyEdit(b, { content: "改稿" }, T0 + 10 * MIN);
+    expect(c.history?.map((r) => r.name)).toEqual(["新規向け（改）", "a"]);
+  });
+
+  it("復元すると復元前の内容も版として残る", () => {
+    const edited = applyEdit(tpl("a", "旧"), { name: "b", content: "新" }, T0);
+    const restored = restoreRevision(edited, edited.history![0], T0 + MIN);
+    expect([restored.name, restored.content]).toEqual(["a", "旧"]);
+    expect(restored.history?.map((r) => r.content)).toEqual(["新", "旧"]);
+  });
+
+  it("直前の版と同じなら積まない", () => {
+    const once = snapshot(tpl("a"), T0);
+    expect(snapshot(once, T0 + MIN)).toBe(once);
+  });
+});
+
+describe("複製と並べ替え", () => {
+  it("複製は新しい id・渡した名前で、履歴を持たない", () => {
+    const src = applyEdit(tpl("a", "本文", { vars: [{ name: "会場", value: "本社" }] }), { content: "改" }, T0);
+    const copy = duplicateTpl(src, "a（コピー）");
+    expect(copy.id).not.toBe(src.id);
+    expect(copy).toMatchObject({ name: "a（コピー）", content: "改", vars: [{ name: "会場", value: "本社" }], history: [] });
+  });
+
+  it("端より先へは動かさない", () => {
+    const list = [tpl("a"), tpl("b"), tpl("c")];
+    expect(moveTpl(list, "b", 1).map((t) => t.id)).toEqual(["a", "c", "b"]);
+    expect(moveTpl(list, "a", -1)).toBe(list);
+  });
+});
+
+describe("書き出しと読み込み", () => {
+  it("書き出したものは履歴を除いてそのまま読める", () => {
+    const list = [
+      applyEdit(tpl("a", "本文", { subject: "件名", category: "新規", buffer: { before: 15, after: 0 } }), { content: "改" }, T0),
+      tpl("b", "", { listFormat: { datePattern: "M/D（ddd）", bullet: "{n}.", separator: " ", layout: "perSlot" } }),
+    ];
+    const back = parseTemplatesJson(templatesToJson(list));
+    expect(back).toEqual(list.map(({ history: _history, ...t }) => t));
+    expect(JSON.stringify(back)).not.toContain("history");
+  });
+
+  it("配列だけのファイルも読み、id のないものには振る・不正な書式は捨てる", () => {
+    const [t] = parseTemplatesJson(JSON.stringify([{ content: "x", buffer: { before: -5, after: 0 }, listFormat: { bullet: "・" } }]));
+    expect(t.id).toMatch(/^tpl-/);
+    expect(t).toMatchObject({ name: "", content: "x", buffer: undefined, listFormat: undefined });
+  });
+
+  it("壊れた・別種類のファイルは読まない", () => {
+    expect(codeOf(() => parseTemplatesJson("{"))).toEqual(["common.notJson", {}]);
+    expect(codeOf(() => parseTemplatesJson(JSON.stringify({ kind: "appoint-maker/backup", data: {} })))).toEqual([
+      "tpl.importError.notTemplates",
+      {},
+    ]);
+    expect(codeOf(() => parseTemplatesJson(JSON.stringify({ templates: [] })))).toEqual(["tpl.importError.notTemplates", {}]);
+    expect(codeOf(() => parseTemplatesJson(JSON.stringify([{ content: "x" }, { name: "本文なし" }])))).toEqual([
+      "tpl.importError.noContent",
+      { n: 2 },
+    ]);
+    expect(codeOf(() => parseTemplatesJson(JSON.stringify([null])))).toEqual(["tpl.importError.noContent", { n: 1 }]);
+  });
+
+  it("取り込みは同じ id を上書き（上書き前を版に残す）し、新しい id は末尾へ", () => {
+    const current = [tpl("a", "手元"), tpl("b")];
+    const merged = mergeTemplates(current, [tpl("c"), tpl("a", "取り込み")], T0);
+    expect(merged.map((t) => [t.id, t.content])).toEqual([
+      ["a", "取り込み"],
+      ["b", "本文"],
+      ["c", "本文"],
+    ]);
+    expect(merged[0].history?.map((r) => r.content)).toEqual(["手元"]);
+  });
+});
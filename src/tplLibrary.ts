@@ -0,0 +1,139 @@
+import { AppError } from "./i18n";
+import type { Tpl, TplRevision } from "./types";
+
+/** ====== テンプレライブラリ（追加・複製・版管理・JSON入出力） ====== */
+const HISTORY_LIMIT = 30;
+const REVISION_INTERVAL_MS = 5 * 60 * 1000; // 連続編集はこの間隔ごとに1版へまとめる
+
+export const newTplId = () => `tpl-${crypto.randomUUID()}`;
+
+const revisionOf = (t: Tpl, at: number): TplRevision => ({
+  at,
+  name: t.name,
+  subject: t.subject,
+  content: t.content,
+  vars: t.vars,
+  listFormat: t.listFormat,
+  buffer: t.buffer,
+});
+
+const sameAsRevision = (t: Tpl, r: TplRevision | undefined) =>
+  !!r &&
+  r.name === t.name &&
+  (r.subject ?? "") === (t.subject ?? "") &&
+  r.content === t.content &&
+  JSON.stringify(r.vars ?? []) === JSON.stringify(t.vars ?? []) &&
+  JSON.stringify(r.listFormat ?? null) === JSON.stringify(t.listFormat ?? null) &&
+  JSON.stringify(r.buffer ?? null) === JSON.stringify(t.buffer ?? null);
+
+/** 現在の内容を履歴に積む（直前の版と同じなら何もしない） */
+export function snapshot(t: Tpl, at = Date.now()): Tpl {
+  const history = t.history ?? [];
+  if (sameAsRevision(t, history[0])) return t;
+  return { ...t, history: [revisionOf(t, at), ...history].slice(0, HISTORY_LIMIT) };
+}
+
+/** 編集を反映（前回の版から一定時間たっていれば編集前の内容を版として残す） */
+export function applyEdit(t: Tpl, patch: Partial<Tpl>, at = Date.now()): Tpl {
+  const last = t.history?.[0];
+  const base = !last || at - last.at >= REVISION_INTERVAL_MS ? snapshot(t, at) : t;
+  return { ...base, ...patch };
+}
+
+/** 過去版を復元（復元前の内容も版として残す） */
+export function restoreRevision(t: Tpl, rev: TplRevision, at = Date.now()): Tpl {
+  const saved = snapshot(t, at);
+  return {
+    ...saved,
+    name: rev.name,
+    subject: rev.subject,
+    content: rev.content,
+    vars: rev.vars,
+    listFormat: rev.listFormat,
+    buffer: rev.buffer,
+  };
+}
+
+// name は呼び出し側で表示言語に合わせて付ける（「〇〇（コピー）」など）
+export const duplicateTpl = (t: Tpl, name: string): Tpl => ({
+  ...t,
+  id: newTplId(),
+  name,
+  history: [],
+});
+
+export const moveTpl = (list: Tpl[], id: string, delta: -1 | 1) => {
+  const i = list.findIndex((t) => t.id === id);
+  const j = i + delta;
+  if (i < 0 || j < 0 || j >= list.length) return list;
+  const next = [...list];
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+};
+
+/** ====== JSON 入出力（チーム共有用：履歴は含めない） ====== */
+const FILE_KIND = "appoint-maker/templates";
+
+export const templatesToJson = (list: Tpl[]) =>
+  JSON.stringify(
+    {
+      kind: FILE_KIND,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      templates: list.map(({ history: _history, ...t }) => t),
+    },
+    null,
+    2
+  );
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+
+const isListFormat = (v: unknown): v is NonNullable<Tpl["listFormat"]> =>
+  isObj(v) &&
+  typeof v.datePattern === "string" &&
+  typeof v.bullet === "string" &&
+  typeof v.separator === "string" &&
+  (v.layout === "byDay" || v.layout === "perSlot");
+
+const isBuffer = (v: unknown): v is NonNullable<Tpl["buffer"]> =>
+  isObj(v) && Number.isFinite(v.before) && Number.isFinite(v.after) && Number(v.before) >= 0 && Number(v.after) >= 0;
+
+/** 読み込んだ JSON を検証してテンプレ配列にする（不正なら AppError） */
+export function parseTemplatesJson(text: string): Tpl[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new AppError("common.notJson");
+  }
+  const list = isObj(data) && data.kind === FILE_KIND ? data.templates : Array.isArray(data) ? data : null;
+  if (!Array.isArray(list)) throw new AppError("tpl.importError.notTemplates");
+  return list.map((t, i) => {
+    if (!isObj(t) || typeof t.content !== "string") throw new AppError("tpl.importError.noContent", { n: i + 1 });
+    const vars = Array.isArray(t.vars)
+      ? t.vars.filter(isObj).map((v) => ({ name: String(v.name ?? ""), value: String(v.value ?? "") }))
+      : undefined;
+    return {
+      id: typeof t.id === "string" && t.id ? t.id : newTplId(),
+      name: typeof t.name === "string" ? t.name : "",
+      subject: typeof t.subject === "string" ? t.subject : undefined,
+      content: t.content,
+      vars,
+      listFormat: isListFormat(t.listFormat) ? t.listFormat : undefined,
+      buffer: isBuffer(t.buffer) ? t.buffer : undefined,
+      category: typeof t.category === "string" ? t.category : undefined,
+    };
+  });
+}
+
+/** 取り込み：同じIDは上書き（上書き前を版として残す）、新しいIDは末尾に追加 */
+export function mergeTemplates(current: Tpl[], incoming: Tpl[], at = Date.now()): Tpl[] {
+  const byId = new Map(incoming.map((t) => [t.id, t]));
+  const merged = current.map((t) => {
+    const inc = byId.get(t.id);
+    if (!inc) return t;
+    byId.delete(t.id);
+    return { ...inc, history: snapshot(t, at).history };
+  });
+  return [...merged, ...byId.values()];
+}
@@ -0,0 +1,92 @@
+/** ====== 型 ====== */
+export type Slot = {
+  id: string;
+  dateISO: string; // "2025-09-25"
+  start: number;   // minutes 0..1440
+  end: number;     // minutes 0..1440 (start < end)
+  confirmed?: boolean; // 相手が選んだ枠（返信コードで確定）
+  duration?: number;   // この枠だけの会議の長さ（分）。省略時は案件の設定
+};
+
+// テンプレごとの差し込み変数（会議URL・会場など）
+export type TplVar = {
+  name: string;   // {{name}} で差し込み
+  value: string;
+};
+
+// 候補一覧の書式
+export type ListFormat = {
+  datePattern: string;          // "M月D日（ddd）"（YYYY / MM / M / DD / D / ddd）
+  bullet: string;               // 行頭記号（{n} は連番）
+  separator: string;            // 同日の時間帯の区切り
+  layout: "byDay" | "perSlot";  // 日ごとにまとめる / 1枠1行
+};
+
+// 会議の前後に空ける時間（対面の移動時間など・分）。候補の文面には出さない
+export type SlotBuffer = { before: number; after: number };
+
+// テンプレの過去版（復元用）
+export type TplRevision = {
+  at: number;         // 保存時刻（エポックms）
+  name: string;
+  subject?: string;
+  content: string;
+  vars?: TplVar[];
+  listFormat?: ListFormat;
+  buffer?: SlotBuffer;
+};
+
+export type Tpl = {
+  id: string;         // "tpl-1"〜"tpl-4"（初期）/ 追加分は "tpl-<uuid>"
+  name: string;       // テンプレ名（タブ表示）
+  subject?: string;   // メールの件名（本文と同じく差し込み可）
+  content: string;    // 本文（{{宛先名}} / {{候補一覧}} / 変数 / {{#if}}）
+  vars?: TplVar[];
+  listFormat?: ListFormat;
+  buffer?: SlotBuffer;  // 前後の余白（この テンプレで出す候補に効く）
+  category?: string;  // 分類（絞り込み用）
+  history?: TplRevision[]; // 新しい順
+};
+
+// 連絡先に送った提案の記録
+export type ProposalRecord = {
+  at: number;           // 送信（コピー）時刻
+  tplName: string;
+  slots: Omit<Slot, "id">[];
+  text: string;
+};
+
+export type Contact = {
+  id: string;
+  name: string;
+  honorific: string;    // "様" など
+  company: string;
+  tplId?: string;       // よく使うテンプレ
+  timeZone?: string;    // 相手のタイムゾーン
+  notes: string;
+  history: ProposalRecord[]; // 新しい順
+};
+
+// 案件ごとの下書き（候補・宛先・テンプレ・生成文をまとめて保持）
+export type DraftStatus = "draft" | "sent" | "confirmed" | "cancelled";
+
+// 枠が会議より長いときの書き方：「13:00〜17:00の間で1時間」/ 開始時刻を並べる
+export type WindowStyle = "within" | "starts";
+
+export type Draft = {
+  id: string;
+  name: string;
+  status: DraftStatus;
+  updatedAt: number;
+  slots: Slot[];
+  toName: string;
+  toCompany: string;
+  toHonorific: string;
+  contactId: string;
+  tplId: string;
+  recipientTz: string;
+  duration: number;    // 会議の長さ（分）。0 は枠そのもの
+  windowStyle: WindowStyle;
+  text: string;        // 最後に生成した出力
+  notes?: string;      // メモ（共有で受け取った文面など）。作業中の内容とは別に案件へ直接保存
+};
@@ -0,0 +1,138 @@
+import { dayShiftLabel, formatTime, formatTimeRange, JA_24H, type TimeStyle } from "./locale";
+
+/** ====== タイムゾーン計算（Intl のみ・外部ライブラリなし） ====== */
+
+const dtfCache = new Map<string, Intl.DateTimeFormat>();
+
+const getDtf = (tz: string) => {
+  let f = dtfCache.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    dtfCache.set(tz, f);
+  }
+  return f;
+};
+
+// Intl が解釈できるタイムゾーン名か
+export const isValidTimeZone = (tz: string) => {
+  try {
+    getDtf(tz);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 指定ゾーンでの壁時計（年月日時分秒）
+export function wallClockIn(tz: string, epochMs: number) {
+  const parts: Record<string, number> = {};
+  for (const p of getDtf(tz).formatToParts(new Date(epochMs))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return {
+    y: parts.year,
+    mo: parts.month,
+    d: parts.day,
+    h: parts.hour === 24 ? 0 : parts.hour,
+    mi: parts.minute,
+    s: parts.second,
+  };
+}
+
+// そのゾーンの UTC オフセット（ms, 東側が正）
+export function tzOffsetMs(tz: string, epochMs: number) {
+  const w = wallClockIn(tz, epochMs);
+  const asUTC = Date.UTC(w.y, w.mo - 1, w.d, w.h, w.mi, w.s);
+  return asUTC - Math.floor(epochMs / 1000) * 1000;
+}
+
+// 指定ゾーンの壁時計 → エポックms（DST の隙間/重複は前側のオフセットを採用）
+export function wallTimeToEpoch(tz: string, y: number, mo: number, d: number, h = 0, mi = 0, s = 0) {
+  const guess = Date.UTC(y, mo - 1, d, h, mi, s);
+  const off1 = tzOffsetMs(tz, guess);
+  let t = guess - off1;
+  const off2 = tzOffsetMs(tz, t);
+  if (off2 !== off1) t = guess - off2;
+  return t;
+}
+
+// 端末のタイムゾーン
+export const deviceTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+// 選択肢用のゾーン一覧（未対応ブラウザは主要ゾーンのみ）
+export const timeZoneList = (): string[] => {
+  const fn = (Intl as unknown as { supportedValuesOf?: (k: string) => string[] }).supportedValuesOf;
+  if (fn) {
+    try {
+      return fn("timeZone");
+    } catch {}
+  }
+  return [
+    "Asia/Tokyo", "Asia/Seoul", "Asia/Shanghai", "Asia/Singapore", "Asia/Kolkata", "Australia/Sydney",
+    "Europe/London", "Europe/Paris", "Europe/Berlin", "America/New_York", "America/Chicago",
+    "America/Denver", "America/Los_Angeles", "Pacific/Honolulu", "UTC",
+  ];
+};
+
+// "JST" / "PDT" / "CEST" のような略称（ロケールにより "GMT+9" 表記になるため複数試す）
+export function zoneAbbr(tz: string, epochMs: number) {
+  let fallback = "";
+  for (const locale of ["en-US", "ja-JP", "en-GB"]) {
+    try {
+      const name = new Intl.DateTimeFormat(locale, { timeZone: tz, timeZoneName: "short" })
+        .formatToParts(new Date(epochMs))
+        .find((p) => p.type === "timeZoneName")?.value;
+      if (!name) continue;
+      if (!/^(GMT|UTC)[+-]/.test(name)) return name;
+      fallback ||= name;
+    } catch {}
+  }
+  return fallback || tz;
+}
+
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+const dayIndex = (y: number, mo: number, d: number) => Math.floor(Date.UTC(y, mo - 1, d) / 86400000);
+
+/**
+ * 相手ゾーンでの時間帯表記（例："18:00〜19:00 PDT（前日）" / "6:00–7:00 PM PDT (prev. day)"）
+ * baseDateISO（自分側の日付）と日付がずれる場合は前日/翌日を添え、日をまたぐ終了は "翌" を付ける
+ */
+export function zonedRangeLabel(tz: string, startMs: number, endMs: number, baseDateISO: string, style: TimeStyle = JA_24H) {
+  const a = wallClockIn(tz, startMs);
+  const b = wallClockIn(tz, endMs);
+  const [by, bm, bd] = baseDateISO.split("-").map(Number);
+  const shift = dayIndex(a.y, a.mo, a.d) - dayIndex(by, bm, bd);
+  const span = dayIndex(b.y, b.mo, b.d) - dayIndex(a.y, a.mo, a.d);
+  const midnight = span === 1 && b.h === 0 && b.mi === 0;
+  const range = formatTimeRange(a.h * 60 + a.mi, midnight ? 1440 : b.h * 60 + b.mi, style, span > 0 && !midnight);
+  return `${range} ${zoneAbbr(tz, startMs)}${dayShiftLabel(shift, style.locale)}`;
+}
+
+/** 1つの時刻をそのゾーンの壁時計で（"0:00 EDT（前日）"） */
+export function zonedTimeLabel(tz: string, epochMs: number, baseDateISO: string, style: TimeStyle = JA_24H) {
+  const a = wallClockIn(tz, epochMs);
+  const [by, bm, bd] = baseDateISO.split("-").map(Number);
+  const shift = dayIndex(a.y, a.mo, a.d) - dayIndex(by, bm, bd);
+  return `${formatTime(a.h * 60 + a.mi, style)} ${zoneAbbr(tz, epochMs)}${dayShiftLabel(shift, style.locale)}`;
+}
+
+// そのゾーンでの日付 "2025-09-25"
+export const dateISOIn = (tz: string, epochMs: number) => {
+  const w = wallClockIn(tz, epochMs);
+  return `${w.y}-${pad(w.mo)}-${pad(w.d)}`;
+};
@@ -1,6 +1,27 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// ビルド結果と public/ の中身を事前キャッシュする dist/sw.js を出す（src/sw.js が雛形）
+function serviceWorker(): Plugin {
+  return {
+    name: 'appoint-sw',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = [...Object.keys(bundle), ...readdirSync('public')].sort()
+      const hash = createHash('sha256')
+      for (const f of files) hash.update(f)
+      for (const f of readdirSync('public')) hash.update(readFileSync(`public/${f}`))
+      const source = readFileSync('src/sw.js', 'utf8')
+        .replace('= __VERSION__', '= ' + JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('= __PRECACHE__', '= ' + JSON.stringify(files.map((f) => `./${f}`)))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })